@@ -1,56 +1,219 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import Header from './components/Header';
 import FileUpload from './components/FileUpload';
 import ResultDisplay from './components/ResultDisplay';
 import StockSensei from './components/StockSensei';
-import { MediaFile, GenerationState, DirectorResponse, AppMode } from './types';
-import { generateReversePrompt } from './services/geminiService';
+import SettingsPanel, { SettingsTab } from './components/SettingsPanel';
+import SessionList from './components/SessionList';
+import SessionExportMenu from './components/SessionExportMenu';
+import { MediaFile, GenerationState, DirectorResponse, AppMode, DirectorAnalysisMode, SessionAssets, ImageStats } from './types';
+import { generateReversePrompt, generateShotBreakdown } from './services/geminiService';
+import { AIAbortError, AIValidationError } from './services/aiErrors';
+import { NewVersion, addVersion, selectVersion } from './services/versionTree';
+import { SessionSnapshot, createSessionId, createSessionThumbnail, defaultSessionName, isQuotaExceeded, loadSession, saveSession } from './services/sessionStore';
+import { importSessionJson } from './services/sessionExport';
+import { analyzeImageStats } from './services/imageStats';
 import { Clapperboard, TrendingUp, Cpu } from 'lucide-react';
 
+const AUTOSAVE_DELAY_MS = 800;
+
+interface SessionInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  thumbnail?: string;
+}
+
 const App: React.FC = () => {
   // Set DeCode AI (director) as default and first page
   const [appMode, setAppMode] = useState<AppMode>('director');
+  const [settingsTab, setSettingsTab] = useState<SettingsTab | null>(null);
 
-  // Director Mode State
-  const [media, setMedia] = useState<MediaFile | null>(null);
+  // Director Mode State (references[0] is the primary reference; more than one = moodboard)
+  const [references, setReferences] = useState<MediaFile[]>([]);
+  const media = references[0] ?? null;
   const [generationState, setGenerationState] = useState<GenerationState>({
     isLoading: false,
     result: null,
     error: null,
   });
 
-  const handleFileSelect = (selectedMedia: MediaFile) => {
-    setMedia(selectedMedia);
+  // 自動儲存的工作階段（重新整理或 Start Over 後可從清單繼續）
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [assets, setAssets] = useState<SessionAssets>({});
+  const quotaWarnedRef = useRef(false);
+
+  // 進行中的分析請求（用於取消）
+  const abortRef = useRef<AbortController | null>(null);
+
+  const getSessionSnapshot = (): SessionSnapshot | null =>
+    session && references.length
+      ? {
+          ...session,
+          updatedAt: Date.now(),
+          references,
+          versions: generationState.versions ?? [],
+          activeVersionId: generationState.activeVersionId ?? null,
+          assets,
+        }
+      : null;
+
+  const persistSession = () => {
+    const snapshot = getSessionSnapshot();
+    if (!snapshot) return;
+    saveSession(snapshot).catch(e => {
+      console.error("Failed to save session", e);
+      if (isQuotaExceeded(e) && !quotaWarnedRef.current) {
+        quotaWarnedRef.current = true;
+        alert("瀏覽器儲存空間不足，工作階段無法自動儲存。請刪除舊的工作階段或清除快取。");
+      }
+    });
+  };
+
+  useEffect(() => {
+    const timer = setTimeout(persistSession, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [session, references, generationState.versions, generationState.activeVersionId, assets]);
+
+  // 本地色彩分析：補上尚未量測的參考素材（匯入或舊工作階段也會補算）。
+  // 以素材來源記錄每次量測：調整角色 / 權重會換成新物件，仍沿用同一次結果；失敗的也不再重試
+  const statsRequestsRef = useRef(new Map<File | string, Promise<ImageStats | undefined>>());
+
+  const statsSourceOf = (media: MediaFile) => media.file ?? media.base64Data ?? media.previewUrl;
+
+  const requestImageStats = (media: MediaFile): Promise<ImageStats | undefined> => {
+    const source = statsSourceOf(media);
+    if (media.stats || media.type === 'text' || !source) return Promise.resolve(media.stats);
+    const requests = statsRequestsRef.current;
+    if (!requests.has(source)) {
+      requests.set(source, analyzeImageStats(media).then(stats => {
+        if (stats) setReferences(prev => prev.map(item => (statsSourceOf(item) === source ? { ...item, stats } : item)));
+        return stats;
+      }));
+    }
+    return requests.get(source)!;
+  };
+
+  // 送出前等待量測完成（進行中的沿用同一個 Promise，不重算）
+  const withImageStats = (items: MediaFile[]) =>
+    Promise.all(items.map(async item => (item.stats ? item : { ...item, stats: await requestImageStats(item) })));
+
+  useEffect(() => {
+    references.forEach(requestImageStats);
+  }, [references]);
+
+  const startSession = (selectedMedia: MediaFile[]) => {
+    const id = createSessionId();
+    setSession({ id, name: defaultSessionName(selectedMedia[0]), createdAt: Date.now() });
+    setAssets({});
+    quotaWarnedRef.current = false;
+    setReferences(selectedMedia);
     setGenerationState({ isLoading: false, result: null, error: null });
+    createSessionThumbnail(selectedMedia[0]).then(thumbnail =>
+      setSession(prev => (prev?.id === id ? { ...prev, thumbnail } : prev))
+    );
   };
 
+  const handleFileSelect = (selectedMedia: MediaFile) => startSession([selectedMedia]);
+
+  const handleFilesSelect = (selectedMedia: MediaFile[]) => startSession(selectedMedia);
+
+  // 工作階段已自動儲存，回到上傳畫面即可
   const handleReset = () => {
-    setMedia(null);
+    abortRef.current?.abort();
+    persistSession(); // 不等自動儲存的延遲
+    setSession(null);
+    setAssets({});
+    setReferences([]);
     setGenerationState({ isLoading: false, result: null, error: null });
   };
 
-  const handleGenerate = async () => {
+  const handleResumeSession = async (id: string) => {
+    try {
+      const saved = await loadSession(id);
+      if (!saved) return;
+      setSession({ id: saved.id, name: saved.name, createdAt: saved.createdAt, thumbnail: saved.thumbnail });
+      setAssets(saved.assets);
+      quotaWarnedRef.current = false;
+      setReferences(saved.references);
+      setGenerationState({
+        isLoading: false,
+        error: null,
+        result: saved.versions.find(v => v.id === saved.activeVersionId)?.result ?? null,
+        versions: saved.versions,
+        activeVersionId: saved.activeVersionId,
+      });
+    } catch (e) {
+      console.error("Failed to load session", e);
+      alert("無法載入工作階段 (Failed to load session).");
+    }
+  };
+
+  // 匯入 JSON：存成新的工作階段後直接繼續
+  const handleImportSession = async (file: File) => {
+    try {
+      const imported = importSessionJson(await file.text());
+      await saveSession(imported);
+      await handleResumeSession(imported.id);
+    } catch (e: any) {
+      console.error("Failed to import session", e);
+      alert(e.message || "Failed to import session.");
+    }
+  };
+
+  const handleGenerate = async (forceRefresh = false, mode: DirectorAnalysisMode = 'single') => {
     if (!media) return;
-    setGenerationState(prev => ({ ...prev, isLoading: true, error: null }));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setGenerationState(prev => ({ ...prev, isLoading: true, error: null, validationIssues: undefined, failedMode: undefined, partialResult: null }));
     try {
-      const response: DirectorResponse = await generateReversePrompt(media);
-      setGenerationState({ isLoading: false, result: response, error: null });
+      const options = {
+        signal: controller.signal,
+        onPartial: (partialResult: Partial<DirectorResponse>) => setGenerationState(prev => ({ ...prev, partialResult })),
+        forceRefresh,
+      };
+      // 影片可改用逐鏡頭拆解模式
+      const response: DirectorResponse = mode === 'shots'
+        ? await generateShotBreakdown(media, options)
+        : await generateReversePrompt(await withImageStats(references), options);
+      setGenerationState(prev => addVersion(prev, response, { parentId: null, phase: 'image-prompt', origin: 'generate' }));
     } catch (err: any) {
-      setGenerationState({
+      if (err instanceof AIAbortError) {
+        setGenerationState(prev => ({ ...prev, isLoading: false, partialResult: null }));
+        return;
+      }
+      // 保留歷史樹，失敗後仍可從側欄還原先前的版本
+      setGenerationState(prev => ({
+        ...prev,
         isLoading: false,
         result: null,
+        activeVersionId: null,
+        partialResult: null,
         error: err.message || "Something went wrong during generation.",
-      });
+        validationIssues: err instanceof AIValidationError ? err.issues : undefined,
+        failedMode: mode,
+      }));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
-  const handleUpdateResult = (newResult: DirectorResponse) => {
-    setGenerationState(prev => ({ ...prev, result: newResult, isLoading: false }));
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleAddVersion = (newResult: DirectorResponse, version: NewVersion) => {
+    setGenerationState(prev => addVersion(prev, newResult, version));
+  };
+
+  const handleSelectVersion = (id: string) => {
+    setGenerationState(prev => selectVersion(prev, id));
   };
 
   return (
     <div className="min-h-screen bg-gray-950 flex flex-col">
-      <Header />
+      <Header onOpenSettings={(tab) => setSettingsTab(tab ?? 'templates')} />
+      {settingsTab && <SettingsPanel initialTab={settingsTab} onClose={() => setSettingsTab(null)} />}
 
       <main className="flex-grow flex flex-col items-center justify-start p-4 md:p-8">
         <div className="w-full max-w-6xl space-y-6">
@@ -98,15 +261,30 @@ const App: React.FC = () => {
                   )}
 
                   {!media ? (
-                    <FileUpload onFileSelect={handleFileSelect} isLoading={generationState.isLoading} />
+                    <>
+                      <FileUpload onFileSelect={handleFileSelect} onFilesSelect={handleFilesSelect} isLoading={generationState.isLoading} />
+                      <SessionList onResume={handleResumeSession} onImport={handleImportSession} />
+                    </>
                   ) : (
-                    <ResultDisplay 
-                      media={media} 
-                      state={generationState} 
-                      onGenerate={handleGenerate}
-                      onReset={handleReset}
-                      onUpdateResult={handleUpdateResult}
-                    />
+                    <>
+                      <div className="mb-4">
+                        <SessionExportMenu getSnapshot={getSessionSnapshot} />
+                      </div>
+                      <ResultDisplay 
+                        key={session?.id}
+                        media={media} 
+                        references={references}
+                        onUpdateReferences={setReferences}
+                        state={generationState} 
+                        onGenerate={handleGenerate}
+                        onCancel={handleCancel}
+                        onReset={handleReset}
+                        onAddVersion={handleAddVersion}
+                        onSelectVersion={handleSelectVersion}
+                        initialAssets={assets}
+                        onAssetsChange={setAssets}
+                      />
+                    </>
                   )}
               </div>
             )}
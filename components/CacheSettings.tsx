@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Trash2, RefreshCw, ChevronDown } from 'lucide-react';
+import {
+  CacheEntry,
+  listCacheEntries,
+  deleteCacheEntry,
+  clearResponseCache,
+  isCacheEnabled,
+  setCacheEnabled,
+} from '../services/responseCache';
+import { formatBytes } from '../services/byteSize';
+
+const CacheSettings: React.FC = () => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [enabled, setEnabled] = useState(isCacheEnabled());
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const loadEntries = async () => {
+    setIsLoading(true);
+    try {
+      setEntries(await listCacheEntries());
+    } catch (e) {
+      console.error("Failed to load cache entries", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const handleToggle = (value: boolean) => {
+    setCacheEnabled(value);
+    setEnabled(value);
+  };
+
+  const handleDelete = async (key: string) => {
+    await deleteCacheEntry(key);
+    setEntries(prev => prev.filter(e => e.key !== key));
+  };
+
+  const handleClear = async () => {
+    if (!confirm("確定清除所有快取？")) return;
+    await clearResponseCache();
+    setEntries([]);
+  };
+
+  const totalBytes = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+  const totalHits = entries.reduce((sum, e) => sum + e.hits, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-white flex items-center gap-2">
+            <Database className="w-4 h-4 text-amber-400" /> 回應快取 (Response Cache)
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            相同素材、功能、參數與模板版本的請求直接使用已儲存的結果，不再重新計費。
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={enabled} onChange={(e) => handleToggle(e.target.checked)} className="accent-amber-500" />
+          啟用快取
+        </label>
+      </div>
+
+      <div className="flex items-center justify-between bg-gray-900/60 border border-gray-800 rounded-xl px-4 py-3">
+        <div className="flex gap-6 text-xs text-gray-400">
+          <span><b className="text-white">{entries.length}</b> entries</span>
+          <span><b className="text-white">{formatBytes(totalBytes)}</b></span>
+          <span><b className="text-white">{totalHits}</b> hits</span>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={loadEntries}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs font-bold transition-colors"
+          >
+            <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} /> 重新整理
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={!entries.length}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-600/80 hover:bg-red-500 disabled:opacity-40 disabled:cursor-not-allowed text-white text-xs font-bold transition-colors"
+          >
+            <Trash2 className="w-3 h-3" /> 全部清除 (Purge)
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {!isLoading && !entries.length && (
+          <p className="text-center text-xs text-gray-600 py-8">尚無快取資料。</p>
+        )}
+        {entries.map(entry => (
+          <div key={entry.key} className="border border-gray-800 rounded-lg bg-gray-900/40">
+            <div className="flex items-center gap-3 px-3 py-2">
+              <button onClick={() => setExpandedKey(expandedKey === entry.key ? null : entry.key)} className="text-gray-500 hover:text-white">
+                <ChevronDown className={`w-4 h-4 transition-transform ${expandedKey === entry.key ? '' : '-rotate-90'}`} />
+              </button>
+              <div className="flex-grow min-w-0 grid grid-cols-2 md:grid-cols-5 gap-2 text-[11px] items-center">
+                <span className="font-bold text-gray-200">{entry.feature}</span>
+                <span className="font-mono text-gray-500 truncate">{entry.templateVersion || '—'}</span>
+                <span className="font-mono text-gray-500 truncate">{entry.provider} · {entry.model}</span>
+                <span className="text-gray-500">{new Date(entry.createdAt).toLocaleString()}</span>
+                <span className="text-gray-500">{formatBytes(entry.sizeBytes)} · {entry.hits} hits</span>
+              </div>
+              <button onClick={() => handleDelete(entry.key)} className="p-1 text-gray-500 hover:text-red-400" title="Delete">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {expandedKey === entry.key && (
+              <div className="border-t border-gray-800 p-3 space-y-2">
+                <p className="text-[10px] font-mono text-gray-600 break-all">key: {entry.key}</p>
+                <pre className="text-[11px] font-mono text-gray-400 whitespace-pre-wrap max-h-64 overflow-y-auto bg-black/40 rounded p-2">
+                  {JSON.stringify(entry.value, null, 2)}
+                </pre>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CacheSettings;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Camera } from 'lucide-react';
+import { CameraMetadata } from '../types';
+import { cameraMetadataEntries } from '../services/cameraMetadata';
+
+interface CameraMetaPanelProps {
+  camera: CameraMetadata;
+}
+
+// 參考照片的 EXIF / XMP 拍攝資訊（也會一併送給導演模型）
+const CameraMetaPanel: React.FC<CameraMetaPanelProps> = ({ camera }) => {
+  const entries = cameraMetadataEntries(camera);
+  if (!entries.length) return null;
+
+  return (
+    <div className="rounded-xl border border-gray-700 bg-gray-900/60 p-3 space-y-2">
+      <div className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider font-bold text-indigo-300">
+        <Camera className="w-3 h-3" /> 拍攝資訊 (EXIF)
+      </div>
+      <dl className="grid grid-cols-2 sm:grid-cols-3 gap-x-3 gap-y-1.5">
+        {entries.map(({ label, value }) => (
+          <div key={label} className="min-w-0">
+            <dt className="text-[10px] text-gray-500 font-bold">{label}</dt>
+            <dd className="text-xs font-mono text-gray-200 truncate" title={value}>{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+export default CameraMetaPanel;
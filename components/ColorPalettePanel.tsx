@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Palette, Copy, Check } from 'lucide-react';
+import { ImageStats } from '../types';
+import { paletteToSvg, paletteToText } from '../services/imageStats';
+
+interface ColorPalettePanelProps {
+  stats: ImageStats;
+}
+
+const Histogram: React.FC<{ bins: number[]; label: string; value: number; gradient: string }> = ({ bins, label, value, gradient }) => {
+  const peak = Math.max(...bins, 0.0001);
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-[10px] font-bold">
+        <span className="text-gray-500 uppercase tracking-wider">{label}</span>
+        <span className="font-mono text-gray-300">{value}</span>
+      </div>
+      <div className="flex items-end gap-px h-8">
+        {bins.map((bin, i) => (
+          <div key={i} className="flex-1 bg-gray-500/70 rounded-t-sm" style={{ height: `${Math.max((bin / peak) * 100, 2)}%` }} />
+        ))}
+      </div>
+      <div className={`h-1 rounded-full ${gradient}`} />
+    </div>
+  );
+};
+
+// 本地量測的主色盤與亮度 / 飽和度分布，點色塊複製 HEX
+const ColorPalettePanel: React.FC<ColorPalettePanelProps> = ({ stats }) => {
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const copy = (key: string, text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopied(key);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  if (!stats.palette.length) return null;
+
+  return (
+    <div className="rounded-xl border border-gray-700 bg-gray-900/60 p-3 space-y-3">
+      <div className="flex items-center justify-between text-[10px] uppercase tracking-wider font-bold">
+        <span className="flex items-center gap-1.5 text-indigo-300">
+          <Palette className="w-3 h-3" /> 色彩分析 (Palette)
+        </span>
+        <div className="flex gap-1 normal-case">
+          {[
+            { key: 'hex', label: 'HEX', text: paletteToText(stats.palette), title: '複製色碼清單' },
+            { key: 'svg', label: 'SVG', text: paletteToSvg(stats.palette), title: '複製 SVG 色票（可直接貼進 Figma）' },
+          ].map(({ key, label, text, title }) => (
+            <button
+              key={key}
+              onClick={() => copy(key, text)}
+              className="flex items-center gap-1 px-2 py-0.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
+              title={title}
+            >
+              {copied === key ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />} {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex h-10 rounded-lg overflow-hidden border border-gray-700">
+        {stats.palette.map((color, i) => (
+          <button
+            key={i}
+            onClick={() => copy(color.hex, color.hex)}
+            className="relative group/swatch flex items-end justify-center min-w-[28px] hover:brightness-110 transition-all"
+            style={{ backgroundColor: color.hex, flexGrow: color.proportion }}
+            title={`${color.hex} · ${Math.round(color.proportion * 100)}%`}
+          >
+            <span className="mb-0.5 px-1 rounded bg-black/60 text-[9px] font-mono text-white opacity-0 group-hover/swatch:opacity-100">
+              {copied === color.hex ? 'Copied' : color.hex}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <Histogram bins={stats.lumaHistogram} label="亮度" value={stats.brightness} gradient="bg-gradient-to-r from-black to-white" />
+        <Histogram bins={stats.saturationHistogram} label="飽和度" value={stats.saturation} gradient="bg-gradient-to-r from-gray-500 to-rose-500" />
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-[10px] font-bold">
+            <span className="text-gray-500 uppercase tracking-wider">對比</span>
+            <span className="font-mono text-gray-300">{stats.contrast}</span>
+          </div>
+          <div className="h-8 flex items-end">
+            <div className="w-full h-1.5 rounded-full bg-gray-800 overflow-hidden">
+              <div className="h-full bg-indigo-500" style={{ width: `${stats.contrast}%` }} />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColorPalettePanel;
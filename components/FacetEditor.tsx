@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, Save, RotateCcw, Ban } from 'lucide-react';
+import { PromptFacets } from '../types';
+import { FACET_FIELDS, parseNegativeList } from '../services/promptFacets';
+
+interface FacetEditorProps {
+  facets: PromptFacets;
+  dirty: boolean;
+  disabled?: boolean;
+  onChange: (facets: PromptFacets) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+const FacetEditor: React.FC<FacetEditorProps> = ({ facets, dirty, disabled, onChange, onApply, onDiscard }) => {
+  // 逗號分隔的文字另外保存，避免輸入到一半的逗號被解析掉
+  const [negativeText, setNegativeText] = useState(facets.negative.join(', '));
+
+  return (
+    <div className="rounded-xl border border-gray-700 bg-gray-900 shadow-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-800 bg-gray-800/50 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-indigo-400" />
+          <h3 className="text-sm font-semibold text-gray-200">結構化拆解 (Prompt Facets)</h3>
+        </div>
+        {dirty && (
+          <div className="flex gap-2">
+            <button
+              onClick={onDiscard}
+              disabled={disabled}
+              className="flex items-center gap-1 px-2 py-1 rounded-md bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-[10px] font-bold transition-colors"
+            >
+              <RotateCcw className="w-3 h-3" /> 放棄
+            </button>
+            <button
+              onClick={onApply}
+              disabled={disabled}
+              className="flex items-center gap-1 px-2 py-1 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-[10px] font-bold transition-colors"
+            >
+              <Save className="w-3 h-3" /> 存為新版本
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="p-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {FACET_FIELDS.map(({ key, label }) => (
+          <label key={key} className="block">
+            <span className="block text-[10px] text-gray-500 font-bold mb-1">{label}</span>
+            <input
+              value={facets[key]}
+              disabled={disabled}
+              onChange={(e) => onChange({ ...facets, [key]: e.target.value })}
+              className="w-full bg-gray-950 border border-gray-700 rounded-lg px-3 py-1.5 text-xs font-mono text-gray-200 outline-none focus:border-indigo-500 disabled:opacity-50"
+            />
+          </label>
+        ))}
+        <label className="block sm:col-span-2">
+          <span className="flex items-center gap-1 text-[10px] text-gray-500 font-bold mb-1">
+            <Ban className="w-3 h-3 text-red-400" /> 排除元素 (Negative, 逗號分隔)
+          </span>
+          <input
+            value={negativeText}
+            disabled={disabled}
+            onChange={(e) => {
+              setNegativeText(e.target.value);
+              onChange({ ...facets, negative: parseNegativeList(e.target.value) });
+            }}
+            className="w-full bg-gray-950 border border-gray-700 rounded-lg px-3 py-1.5 text-xs font-mono text-red-300/80 outline-none focus:border-red-500 disabled:opacity-50"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default FacetEditor;
@@ -1,59 +1,141 @@
-import React, { useCallback } from 'react';
-import { UploadCloud, Image as ImageIcon, Film } from 'lucide-react';
-import { MediaFile } from '../types';
-import { fileToGenerativePart } from '../services/geminiService';
+import React, { useCallback, useEffect, useState } from 'react';
+import { UploadCloud, Image as ImageIcon, Film, Layers, MapPin, Link, Loader2 } from 'lucide-react';
+import { MediaFile, KeyframeSamplingMode } from '../types';
+import { DEFAULT_INGEST_OPTIONS, clipboardHasMedia, fetchUrlAsFile, filesFromClipboard, filesFromDataTransfer, ingestFile, isMediaUrl } from '../services/mediaIngest';
+
+const FRAME_COUNT_OPTIONS = [6, 8, 12, 16];
+const MAX_REFERENCES = 6;
+
+// 同一畫面可能有多個上傳區（例如 Wallpaper 的風格圖與主體圖），Ctrl+V 只交給其中一個：
+// 最近一次滑過或聚焦的上傳區，否則為最早掛載的那個
+const pasteZones: symbol[] = [];
+let activePasteZone: symbol | null = null;
 
 interface FileUploadProps {
   onFileSelect: (media: MediaFile) => void;
+  onFilesSelect?: (media: MediaFile[]) => void; // 提供時可一次選取多張參考 (moodboard)
   isLoading: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isLoading }) => {
-  const handleFileChange = useCallback(async (file: File) => {
-    if (!file) return;
+const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, onFilesSelect, isLoading }) => {
+  // Video keyframe sampling (long / 4K clips are sent as frames instead of the raw file)
+  const [sampleVideos, setSampleVideos] = useState(DEFAULT_INGEST_OPTIONS.sampleVideos);
+  const [samplingMode, setSamplingMode] = useState<KeyframeSamplingMode>(DEFAULT_INGEST_OPTIONS.samplingMode);
+  const [frameCount, setFrameCount] = useState(DEFAULT_INGEST_OPTIONS.frameCount);
+  const [samplingProgress, setSamplingProgress] = useState<number | null>(null);
+  // 照片的 EXIF / XMP（含 GPS 位置）預設在上傳前移除：送給模型與存進工作階段的都是移除後的檔案，
+  // 拍攝資訊另外解析後保留。勾選後改用原檔。
+  const [keepGps, setKeepGps] = useState(DEFAULT_INGEST_OPTIONS.keepGps);
+  const [urlInput, setUrlInput] = useState('');
+  const [isFetching, setIsFetching] = useState(false);
 
-    // Validate size (approx 20MB limit for inline base64 safety in browser)
-    if (file.size > 20 * 1024 * 1024) {
-      alert("File is too large. Please upload files smaller than 20MB for this demo.");
-      return;
+  const [pasteZone] = useState(() => Symbol('FileUpload'));
+
+  const isBusy = isLoading || samplingProgress !== null || isFetching;
+
+  const processFile = useCallback(async (file: File): Promise<MediaFile | null> => {
+    try {
+      return await ingestFile(file, {
+        sampleVideos,
+        samplingMode,
+        frameCount,
+        keepGps,
+        onSamplingProgress: setSamplingProgress,
+      });
+    } catch (e: any) {
+      alert(e.message);
+      return null;
+    } finally {
+      setSamplingProgress(null);
     }
+  }, [sampleVideos, samplingMode, frameCount, keepGps]);
 
-    const type = file.type.startsWith('video/') ? 'image' : 'image'; // Default to image logic, check strict mime below
-    const isVideo = file.type.startsWith('video/');
-    const isImage = file.type.startsWith('image/');
+  const handleFiles = useCallback(async (files: File[]) => {
+    if (!files.length) return;
 
-    if (!isVideo && !isImage) {
-      alert("Please upload a valid image or video file.");
+    if (!onFilesSelect || files.length === 1) {
+      const media = await processFile(files[0]);
+      if (media) onFileSelect(media);
       return;
     }
 
-    // Generate preview URL
-    const previewUrl = URL.createObjectURL(file);
-    
-    // Prepare base64 data
+    if (files.length > MAX_REFERENCES) {
+      alert(`最多可上傳 ${MAX_REFERENCES} 張參考素材，將只使用前 ${MAX_REFERENCES} 張。`);
+    }
+    const references: MediaFile[] = [];
+    for (const file of files.slice(0, MAX_REFERENCES)) {
+      const media = await processFile(file);
+      if (media) references.push({ ...media, role: 'all', weight: 2 });
+    }
+    if (references.length > 1) onFilesSelect(references);
+    else if (references.length === 1) onFileSelect(references[0]);
+  }, [processFile, onFileSelect, onFilesSelect]);
+
+  // 下載網址 / 剪貼簿內容時也顯示忙碌狀態
+  const ingestFrom = useCallback(async (load: () => Promise<File[]>): Promise<boolean> => {
+    setIsFetching(true);
+    let files: File[];
     try {
-        const { data, mimeType } = await fileToGenerativePart(file);
-        
-        onFileSelect({
-            file,
-            previewUrl,
-            type: isVideo ? 'video' : 'image',
-            base64Data: data,
-            mimeType: mimeType
-        });
-    } catch (e) {
-        console.error("Error processing file", e);
-        alert("Failed to process file.");
+      files = await load();
+    } catch (e: any) {
+      alert(e.message || "Failed to load media.");
+      return false;
+    } finally {
+      setIsFetching(false);
     }
+    if (!files.length) {
+      alert("沒有可用的圖片或影片 (No image or video found).");
+      return false;
+    }
+    await handleFiles(files);
+    return true;
+  }, [handleFiles]);
 
-  }, [onFileSelect]);
+  useEffect(() => {
+    pasteZones.push(pasteZone);
+    return () => {
+      pasteZones.splice(pasteZones.indexOf(pasteZone), 1);
+      if (activePasteZone === pasteZone) activePasteZone = null;
+    };
+  }, [pasteZone]);
 
-  const onDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+  const activatePasteZone = () => {
+    activePasteZone = pasteZone;
+  };
+
+  // Ctrl+V：畫面上任何位置都可貼上圖片或圖片網址（輸入框內貼上純文字不攔截）
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      if ((activePasteZone ?? pasteZones[0]) !== pasteZone) return;
+      if (isBusy || !e.clipboardData || !clipboardHasMedia(e.clipboardData)) return;
+      const target = e.target as HTMLElement | null;
+      const isEditing = target?.closest('input, textarea, [contenteditable="true"]');
+      if (isEditing && !e.clipboardData.files.length) return;
+      e.preventDefault();
+      const data = e.clipboardData;
+      const pending = filesFromClipboard(data);
+      ingestFrom(() => pending);
+    };
+    document.addEventListener('paste', onPaste);
+    return () => document.removeEventListener('paste', onPaste);
+  }, [isBusy, ingestFrom, pasteZone]);
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (isLoading) return;
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFileChange(e.dataTransfer.files[0]);
+    const url = urlInput.trim();
+    if (!url) return;
+    if (!isMediaUrl(url)) {
+      alert("請輸入圖片 / 影片網址或 data URL。");
+      return;
     }
+    ingestFrom(async () => [await fetchUrlAsFile(url)]).then(ok => ok && setUrlInput(''));
+  };
+
+  const onDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    if (isBusy) return;
+    const pending = filesFromDataTransfer(e.dataTransfer);
+    ingestFrom(() => pending);
   };
 
   const onDragOver = (e: React.DragEvent<HTMLLabelElement>) => {
@@ -61,7 +143,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isLoading }) => {
   };
 
   return (
-    <div className="w-full">
+    <div className="w-full" onPointerEnter={activatePasteZone} onFocus={activatePasteZone}>
       <label
         onDrop={onDrop}
         onDragOver={onDragOver}
@@ -69,12 +151,21 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isLoading }) => {
         className={`
           relative group flex flex-col items-center justify-center w-full h-64 
           border-2 border-dashed rounded-2xl cursor-pointer transition-all duration-300
-          ${isLoading 
+          ${isBusy 
             ? 'border-gray-700 bg-gray-900/30 cursor-not-allowed opacity-50' 
             : 'border-gray-600 bg-gray-800/20 hover:bg-gray-800/40 hover:border-indigo-500 hover:shadow-lg hover:shadow-indigo-500/10'
           }
         `}
       >
+        {samplingProgress !== null && (
+          <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-3 bg-gray-950/80 rounded-2xl">
+            <Layers className="w-6 h-6 text-indigo-400 animate-pulse" />
+            <p className="text-xs text-gray-300 font-medium">正在抽取關鍵影格 (Sampling keyframes)...</p>
+            <div className="w-48 h-1.5 bg-gray-800 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(samplingProgress * 100)}%` }} />
+            </div>
+          </div>
+        )}
         <div className="flex flex-col items-center justify-center pt-5 pb-6 text-center px-4">
           <div className={`p-4 rounded-full mb-4 transition-colors ${isLoading ? 'bg-gray-800' : 'bg-gray-800 group-hover:bg-indigo-600/20'}`}>
             <UploadCloud className={`w-8 h-8 ${isLoading ? 'text-gray-600' : 'text-gray-400 group-hover:text-indigo-400'}`} />
@@ -83,8 +174,12 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isLoading }) => {
             <span className="font-semibold text-indigo-400">Click to upload</span> or drag and drop
           </p>
           <p className="text-xs text-gray-500 max-w-xs">
-            Supported: JPG, PNG, WEBP, MP4, WEBM (Max 20MB)
+            Supported: JPG, PNG, WEBP, MP4, WEBM (Max 20MB · large images are downsized, larger videos are keyframe-sampled)
           </p>
+          {onFilesSelect && (
+            <p className="text-xs text-indigo-400/70 mt-1">可一次選取 2–{MAX_REFERENCES} 張或拖入整個資料夾，作為 Moodboard 多參考分析</p>
+          )}
+          <p className="text-xs text-gray-500 mt-1">也可以直接 Ctrl+V 貼上圖片或圖片網址</p>
           <div className="flex gap-4 mt-4 text-xs font-mono text-gray-600">
             <span className="flex items-center gap-1"><ImageIcon className="w-3 h-3" /> Images</span>
             <span className="flex items-center gap-1"><Film className="w-3 h-3" /> Videos</span>
@@ -95,10 +190,76 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isLoading }) => {
           type="file" 
           className="hidden" 
           accept="image/*,video/*"
-          onChange={(e) => e.target.files && handleFileChange(e.target.files[0])}
-          disabled={isLoading}
+          multiple={!!onFilesSelect}
+          onChange={(e) => {
+            if (e.target.files) handleFiles(Array.from(e.target.files));
+            e.target.value = '';
+          }}
+          disabled={isBusy}
         />
       </label>
+
+      {/* Import from an image URL or data URL */}
+      <form onSubmit={handleUrlSubmit} className="mt-3 flex gap-2">
+        <div className="flex-1 flex items-center gap-2 bg-gray-900 border border-gray-700 rounded-lg px-3 focus-within:border-indigo-500">
+          <Link className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />
+          <input
+            value={urlInput}
+            onChange={(e) => setUrlInput(e.target.value)}
+            disabled={isBusy}
+            placeholder="貼上圖片網址或 data URL (https://... / data:image/...)"
+            className="w-full bg-transparent py-2 text-xs text-gray-200 placeholder-gray-600 outline-none disabled:opacity-50"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isBusy || !urlInput.trim()}
+          className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-xs font-bold text-gray-300 transition-colors"
+        >
+          {isFetching ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Link className="w-3.5 h-3.5" />} 匯入網址
+        </button>
+      </form>
+
+      {/* Video keyframe sampling options */}
+      <div className="mt-2 flex flex-wrap items-center gap-3 px-1 text-[11px] text-gray-500">
+        <label className="flex items-center gap-1.5 cursor-pointer hover:text-gray-300">
+          <input
+            type="checkbox"
+            checked={sampleVideos}
+            onChange={(e) => setSampleVideos(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          <Layers className="w-3 h-3" /> 影片改送關鍵影格 (Keyframes)
+        </label>
+        {sampleVideos && (
+          <>
+            <select
+              value={samplingMode}
+              onChange={(e) => setSamplingMode(e.target.value as KeyframeSamplingMode)}
+              className="bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-gray-300 outline-none"
+            >
+              <option value="scene">場景切換 (Scene-change)</option>
+              <option value="interval">固定間隔 (Fixed interval)</option>
+            </select>
+            <select
+              value={frameCount}
+              onChange={(e) => setFrameCount(Number(e.target.value))}
+              className="bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-gray-300 outline-none"
+            >
+              {FRAME_COUNT_OPTIONS.map(n => <option key={n} value={n}>{n} frames</option>)}
+            </select>
+          </>
+        )}
+        <label className="flex items-center gap-1.5 cursor-pointer hover:text-gray-300" title="照片 EXIF 中的拍攝位置">
+          <input
+            type="checkbox"
+            checked={keepGps}
+            onChange={(e) => setKeepGps(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          <MapPin className="w-3 h-3" /> 保留 GPS 位置
+        </label>
+      </div>
     </div>
   );
 };
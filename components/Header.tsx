@@ -1,7 +1,37 @@
-import React from 'react';
-import { Sparkles, TrendingUp } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Sparkles, TrendingUp, Server, Settings, Coins, AlertTriangle, X, Languages } from 'lucide-react';
+import { AIProviderId, AnalysisLanguage } from '../types';
+import { getAvailableProviders, getActiveProviderId, setActiveProviderId } from '../services/aiProvider';
+import { ANALYSIS_LANGUAGES, getAnalysisLanguage, setAnalysisLanguage } from '../services/promptTemplates';
+import { UsageSummary, BudgetStatus, getSessionSummary, subscribeUsage } from '../services/usageTracker';
+import type { SettingsTab } from './SettingsPanel';
+
+interface HeaderProps {
+  onOpenSettings: (tab?: SettingsTab) => void;
+}
+
+const formatTokens = (n: number) => (n >= 1_000_000 ? `${(n / 1_000_000).toFixed(2)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : `${n}`);
+
+const Header: React.FC<HeaderProps> = ({ onOpenSettings }) => {
+  const [providerId, setProviderId] = useState<AIProviderId>(getActiveProviderId());
+  const [language, setLanguage] = useState<AnalysisLanguage>(getAnalysisLanguage());
+
+  // Session usage & budget
+  const [usage, setUsage] = useState<UsageSummary>(getSessionSummary());
+  const [dismissedStatus, setDismissedStatus] = useState<BudgetStatus | null>(null);
+
+  useEffect(() => subscribeUsage(setUsage), []);
+
+  const handleProviderChange = (id: AIProviderId) => {
+    setActiveProviderId(id);
+    setProviderId(id);
+  };
+
+  const handleLanguageChange = (value: AnalysisLanguage) => {
+    setAnalysisLanguage(value);
+    setLanguage(value);
+  };
 
-const Header: React.FC = () => {
   return (
     <header className="w-full py-6 border-b border-gray-800 bg-gray-900/50 backdrop-blur-md sticky top-0 z-10">
       <div className="max-w-5xl mx-auto px-4 flex items-center justify-between">
@@ -17,11 +47,86 @@ const Header: React.FC = () => {
           </div>
         </div>
         
-        <div className="hidden sm:flex items-center gap-2 text-sm text-gray-400 bg-gray-800/50 px-3 py-1.5 rounded-full border border-gray-700">
-          <Sparkles className="w-4 h-4 text-green-400" />
-          <span>Professional Edition</span>
+        <div className="flex items-center gap-3">
+          {/* AI Provider Switch (Gemini / Proxy / Offline Fixtures) */}
+          <label className={`flex items-center gap-2 text-xs px-3 py-1.5 rounded-full border transition-colors
+            ${providerId === 'fixture' ? 'bg-yellow-500/10 border-yellow-500/40 text-yellow-300' : 'bg-gray-800/50 border-gray-700 text-gray-400'}
+          `}>
+            <Server className="w-3.5 h-3.5" />
+            <select
+              value={providerId}
+              onChange={(e) => handleProviderChange(e.target.value as AIProviderId)}
+              className="bg-transparent outline-none cursor-pointer font-bold"
+              title="AI Provider"
+            >
+              {getAvailableProviders().map(provider => (
+                <option key={provider.id} value={provider.id} className="bg-gray-900">{provider.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {/* Analysis Language (prompt 一律為英文) */}
+          <label className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-full border bg-gray-800/50 border-gray-700 text-gray-400" title="分析語言 (Analysis Language)">
+            <Languages className="w-3.5 h-3.5" />
+            <select
+              value={language}
+              onChange={(e) => handleLanguageChange(e.target.value as AnalysisLanguage)}
+              className="bg-transparent outline-none cursor-pointer font-bold"
+            >
+              {(Object.keys(ANALYSIS_LANGUAGES) as AnalysisLanguage[]).map(id => (
+                <option key={id} value={id} className="bg-gray-900">{ANALYSIS_LANGUAGES[id].label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="hidden sm:flex items-center gap-2 text-sm text-gray-400 bg-gray-800/50 px-3 py-1.5 rounded-full border border-gray-700">
+            <Sparkles className="w-4 h-4 text-green-400" />
+            <span>Professional Edition</span>
+          </div>
+
+          {/* Session Usage */}
+          <button
+            onClick={() => onOpenSettings('usage')}
+            className={`flex items-center gap-1.5 text-xs font-mono px-3 py-1.5 rounded-full border transition-colors
+              ${usage.status === 'exceeded' ? 'bg-red-500/10 border-red-500/50 text-red-300'
+                : usage.status === 'warning' ? 'bg-amber-500/10 border-amber-500/40 text-amber-300'
+                : 'bg-gray-800/50 border-gray-700 text-gray-400 hover:text-gray-200'}
+            `}
+            title={`Session: ${usage.calls} calls · ${usage.inputTokens} in / ${usage.outputTokens} out tokens`}
+          >
+            <Coins className="w-3.5 h-3.5" />
+            ${usage.costUsd.toFixed(usage.costUsd < 1 ? 4 : 2)}
+            <span className="hidden md:inline opacity-60">· {formatTokens(usage.inputTokens + usage.outputTokens)} tok</span>
+          </button>
+
+          <button
+            onClick={() => onOpenSettings()}
+            className="p-2 rounded-full text-gray-400 hover:text-white bg-gray-800/50 hover:bg-gray-700 border border-gray-700 transition-colors"
+            title="Settings"
+          >
+            <Settings className="w-4 h-4" />
+          </button>
         </div>
       </div>
+
+      {/* Soft budget warning */}
+      {usage.status !== 'ok' && dismissedStatus !== usage.status && usage.budget.sessionBudgetUsd && (
+        <div className="max-w-5xl mx-auto px-4 mt-4">
+          <div className={`flex items-center gap-3 px-4 py-2 rounded-lg border text-xs
+            ${usage.status === 'exceeded' ? 'bg-red-900/30 border-red-500/50 text-red-200' : 'bg-amber-900/20 border-amber-500/40 text-amber-200'}
+          `}>
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <p className="flex-grow">
+              {usage.status === 'exceeded'
+                ? `本次工作階段費用已超過預算 $${usage.budget.sessionBudgetUsd.toFixed(2)}（目前 $${usage.costUsd.toFixed(4)}）。`
+                : `本次工作階段費用已達預算的 ${usage.budget.warnAtPercent}%（$${usage.costUsd.toFixed(4)} / $${usage.budget.sessionBudgetUsd.toFixed(2)}）。`}
+            </p>
+            <button onClick={() => setDismissedStatus(usage.status)} className="p-0.5 hover:text-white" title="Dismiss">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
     </header>
   );
 };
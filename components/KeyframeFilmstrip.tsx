@@ -0,0 +1,51 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { MediaFile } from '../types';
+
+interface KeyframeFilmstripProps {
+  media: MediaFile;
+  onSelectTime?: (time: number) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+const KeyframeFilmstrip: React.FC<KeyframeFilmstripProps> = ({ media, onSelectTime }) => {
+  if (!media.keyframes?.length) return null;
+  const meta = media.videoMeta;
+
+  return (
+    <div className="rounded-xl border border-gray-700 bg-gray-900/60 p-3 space-y-2">
+      <div className="flex items-center justify-between text-[10px] uppercase tracking-wider font-bold">
+        <span className="flex items-center gap-1.5 text-indigo-300">
+          <Layers className="w-3 h-3" /> Keyframes ({media.keyframes.length})
+        </span>
+        {meta && (
+          <span className="text-gray-500 font-mono normal-case">
+            {meta.samplingMode === 'scene' ? 'scene-change' : 'interval'} · {meta.duration.toFixed(1)}s · {meta.width}×{meta.height}{meta.fps ? ` · ${meta.fps}fps` : ''}
+          </span>
+        )}
+      </div>
+      <div className="flex gap-2 overflow-x-auto pb-1 scrollbar-thin scrollbar-thumb-gray-700">
+        {media.keyframes.map((frame, i) => (
+          <button
+            key={i}
+            onClick={() => onSelectTime?.(frame.time)}
+            className="relative flex-shrink-0 h-16 rounded-md overflow-hidden border border-gray-700 hover:border-indigo-500 transition-colors"
+            title={`t=${frame.time.toFixed(2)}s`}
+          >
+            <img src={`data:${frame.mimeType};base64,${frame.base64Data}`} className="h-full object-cover" alt={`Keyframe ${i + 1}`} />
+            <span className="absolute bottom-0 inset-x-0 bg-black/70 text-[9px] text-gray-300 font-mono text-center">
+              {formatTime(frame.time)}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default KeyframeFilmstrip;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Target, Loader2, Wand2 } from 'lucide-react';
+import { MatchReport, MediaFile } from '../types';
+import { getDimensionLabel, getWeakestDimensions, orderedScores, scoreColor } from '../services/matchScore';
+import { ReferenceThumb } from './ReferenceBoard';
+
+interface MatchReportPanelProps {
+  reference: MediaFile;
+  generated: MediaFile;
+  report: MatchReport | null;
+  isScoring: boolean;
+  disabled?: boolean;
+  onScore: () => void;
+  onRefine: () => void;
+}
+
+// 參考 vs 生成圖並排，逐面向顯示相似度分數
+const MatchReportPanel: React.FC<MatchReportPanelProps> = ({ reference, generated, report, isScoring, disabled, onScore, onRefine }) => {
+  const weakest = report ? getWeakestDimensions(report).map(s => s.dimension) : [];
+
+  return (
+    <div className="mt-3 rounded-lg border border-gray-700 bg-gray-950/60 p-3 space-y-3">
+      <div className="flex items-center justify-between text-[10px] uppercase tracking-wider font-bold">
+        <span className="flex items-center gap-1.5 text-amber-300">
+          <Target className="w-3 h-3" /> Match Score
+        </span>
+        {report && (
+          <span className="font-mono normal-case text-gray-400">
+            Overall <span className="text-white text-sm">{report.overall}</span>/100
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {[
+          { label: 'Reference', media: reference },
+          { label: 'Generated', media: generated },
+        ].map(({ label, media }) => (
+          <div key={label} className="relative h-28 rounded-lg overflow-hidden border border-gray-800 bg-black">
+            <ReferenceThumb media={media} className="w-full h-full" />
+            <span className="absolute top-1 left-1 px-1.5 rounded bg-black/70 text-white text-[10px] font-bold">{label}</span>
+          </div>
+        ))}
+      </div>
+
+      {report ? (
+        <>
+          <p className="text-xs text-gray-300 leading-relaxed">{report.summary}</p>
+          <div className="space-y-2">
+            {orderedScores(report).map(s => (
+              <div key={s.dimension} title={s.fix}>
+                <div className="flex items-center justify-between text-[11px]">
+                  <span className={weakest.includes(s.dimension) ? 'text-red-300 font-bold' : 'text-gray-400'}>
+                    {getDimensionLabel(s.dimension)}
+                  </span>
+                  <span className="font-mono text-gray-300">{s.score}</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-gray-800 overflow-hidden">
+                  <div className={`h-full ${scoreColor(s.score)}`} style={{ width: `${s.score}%` }} />
+                </div>
+                <p className="mt-0.5 text-[10px] text-gray-500">{s.note}</p>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={onRefine}
+            disabled={disabled || !weakest.length}
+            className="w-full py-2 bg-amber-600 hover:bg-amber-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg text-xs font-bold flex items-center justify-center gap-2"
+          >
+            <Wand2 className="w-3 h-3" />
+            {weakest.length ? `依最弱項目修正 (${weakest.map(getDimensionLabel).join('、')})` : '各面向皆已達標'}
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={onScore}
+          disabled={disabled || isScoring}
+          className="w-full py-2 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed text-gray-200 rounded-lg text-xs font-bold flex items-center justify-center gap-2"
+        >
+          {isScoring ? <Loader2 className="w-3 h-3 animate-spin" /> : <Target className="w-3 h-3" />}
+          {isScoring ? '評分中...' : '與參考比對評分 (Match Score)'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MatchReportPanel;
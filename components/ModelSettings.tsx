@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Cpu, Save, RotateCcw, Check } from 'lucide-react';
+import { AIFeature } from '../types';
+import {
+  GenerationSettings,
+  AVAILABLE_MODELS,
+  FEATURE_LABELS,
+  getAllGenerationSettings,
+  saveGenerationSettings,
+  resetGenerationSettings,
+} from '../services/modelSettings';
+
+const ModelSettings: React.FC = () => {
+  const [settings, setSettings] = useState<Record<AIFeature, GenerationSettings>>(getAllGenerationSettings());
+  const [saved, setSaved] = useState(false);
+
+  const update = (feature: AIFeature, patch: Partial<GenerationSettings>) => {
+    setSettings(prev => ({ ...prev, [feature]: { ...prev[feature], ...patch } }));
+  };
+
+  const handleSave = () => {
+    saveGenerationSettings(settings);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 1500);
+  };
+
+  const handleReset = () => {
+    if (!confirm("確定還原所有功能的預設模型與參數？")) return;
+    resetGenerationSettings();
+    setSettings(getAllGenerationSettings());
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-white flex items-center gap-2">
+            <Cpu className="w-4 h-4 text-indigo-400" /> 模型與生成參數 (Models)
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">每個功能可使用不同的模型、temperature 與最大輸出 tokens。留空代表使用模型預設值。</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs font-bold transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" /> 還原預設
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold transition-colors"
+          >
+            {saved ? <Check className="w-3 h-3" /> : <Save className="w-3 h-3" />} 儲存
+          </button>
+        </div>
+      </div>
+
+      <div className="border border-gray-800 rounded-xl overflow-hidden">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-900 text-gray-500 text-[10px] uppercase tracking-wider">
+            <tr>
+              <th className="text-left px-3 py-2">Feature</th>
+              <th className="text-left px-3 py-2">Model</th>
+              <th className="text-left px-3 py-2">Temperature</th>
+              <th className="text-left px-3 py-2">Max Output Tokens</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(settings) as AIFeature[]).map(feature => {
+              const value = settings[feature];
+              return (
+                <tr key={feature} className="border-t border-gray-800">
+                  <td className="px-3 py-2">
+                    <p className="text-gray-200 font-bold">{FEATURE_LABELS[feature]}</p>
+                    <p className="text-[10px] font-mono text-gray-600">{feature}</p>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      list="model-options"
+                      value={value.model}
+                      onChange={(e) => update(feature, { model: e.target.value })}
+                      className="w-52 bg-gray-950 border border-gray-700 rounded px-2 py-1 font-mono text-gray-200 outline-none focus:border-indigo-500"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="range"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={value.temperature ?? 1}
+                        onChange={(e) => update(feature, { temperature: Number(e.target.value) })}
+                        className="w-24 accent-indigo-500"
+                      />
+                      <span className="w-8 font-mono text-gray-400">{value.temperature ?? '—'}</span>
+                      {value.temperature !== undefined && (
+                        <button onClick={() => update(feature, { temperature: undefined })} className="text-[10px] text-gray-500 hover:text-white">
+                          default
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min={1}
+                      placeholder="default"
+                      value={value.maxOutputTokens ?? ''}
+                      onChange={(e) => update(feature, { maxOutputTokens: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      className="w-28 bg-gray-950 border border-gray-700 rounded px-2 py-1 font-mono text-gray-200 outline-none focus:border-indigo-500"
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <datalist id="model-options">
+          {AVAILABLE_MODELS.map(model => <option key={model} value={model} />)}
+        </datalist>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettings;
@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { GitCompare, X } from 'lucide-react';
+import { DirectorResponse } from '../types';
+import { DiffSegment, DiffType, diffText, getDiffStats } from '../services/textDiff';
+
+interface PromptDiffViewProps {
+  before: DirectorResponse;
+  after: DirectorResponse;
+  beforeLabel: string;
+  afterLabel: string;
+  onClose: () => void;
+}
+
+const SEGMENT_STYLES: Record<DiffType, string> = {
+  equal: '',
+  added: 'bg-green-500/20 text-green-300 rounded-sm',
+  removed: 'bg-red-500/20 text-red-300 line-through decoration-red-400/70 rounded-sm',
+  moved: 'bg-amber-500/20 text-amber-200 rounded-sm',
+};
+
+const DiffBody: React.FC<{ segments: DiffSegment[]; mono?: boolean }> = ({ segments, mono }) => (
+  <div className={`p-4 text-sm leading-relaxed whitespace-pre-wrap ${mono ? 'font-mono text-gray-400' : 'text-gray-400'}`}>
+    {segments.map((segment, i) => (
+      <span
+        key={i}
+        className={SEGMENT_STYLES[segment.type]}
+        title={segment.type === 'moved' ? '調換順序 (Reordered)' : undefined}
+      >
+        {segment.text}
+      </span>
+    ))}
+  </div>
+);
+
+const DiffSection: React.FC<{ title: string; before: string; after: string; mono?: boolean }> = ({ title, before, after, mono }) => {
+  const segments = useMemo(() => diffText(before, after), [before, after]);
+  const stats = getDiffStats(segments);
+  const unchanged = segments.every(s => s.type === 'equal');
+
+  return (
+    <div className="border-t border-gray-800">
+      <div className="px-4 pt-3 flex items-center justify-between text-[10px] uppercase tracking-wider font-bold">
+        <span className="text-gray-500">{title}</span>
+        {unchanged ? (
+          <span className="text-gray-600 normal-case">無變更 (No changes)</span>
+        ) : (
+          <span className="flex gap-2 font-mono normal-case">
+            <span className="text-green-400">+{stats.added}</span>
+            <span className="text-red-400">−{stats.removed}</span>
+            {stats.moved > 0 && <span className="text-amber-300">↕{stats.moved}</span>}
+          </span>
+        )}
+      </div>
+      <DiffBody segments={segments} mono={mono} />
+    </div>
+  );
+};
+
+const PromptDiffView: React.FC<PromptDiffViewProps> = ({ before, after, beforeLabel, afterLabel, onClose }) => (
+  <div className="rounded-xl border border-amber-500/30 bg-gray-900 shadow-lg overflow-hidden animate-in fade-in duration-200">
+    <div className="px-4 py-3 bg-gray-800/50 flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <GitCompare className="w-4 h-4 text-amber-400" />
+        <h3 className="text-sm font-semibold text-gray-200">
+          版本差異 <span className="font-mono text-gray-500">{beforeLabel} → {afterLabel}</span>
+        </h3>
+      </div>
+      <button onClick={onClose} className="p-1 rounded text-gray-500 hover:text-white hover:bg-gray-700" title="關閉">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    <div className="px-4 py-2 flex gap-3 text-[10px] text-gray-500">
+      <span><span className={`px-1 ${SEGMENT_STYLES.added}`}>新增</span> Added</span>
+      <span><span className={`px-1 ${SEGMENT_STYLES.removed}`}>刪除</span> Removed</span>
+      <span><span className={`px-1 ${SEGMENT_STYLES.moved}`}>調換</span> Reordered</span>
+    </div>
+    <DiffSection title="English Prompt" before={before.prompt} after={after.prompt} mono />
+    <DiffSection title="Strategy & Analysis" before={before.analysis} after={after.analysis} />
+  </div>
+);
+
+export default PromptDiffView;
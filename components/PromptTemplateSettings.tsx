@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Save, RotateCcw, Check } from 'lucide-react';
+import {
+  PromptTemplateId,
+  ResolvedPromptTemplate,
+  EditablePromptVariables,
+  PROMPT_VARIABLE_NAMES,
+  getPromptTemplates,
+  savePromptTemplate,
+  restoreDefaultTemplate,
+  getPromptVariables,
+  savePromptVariables,
+  formatTemplateVersion,
+  DEFAULT_PROMPT_TEMPLATES,
+} from '../services/promptTemplates';
+import { getActiveProviderId } from '../services/aiProvider';
+
+const PromptTemplateSettings: React.FC = () => {
+  const [templates, setTemplates] = useState<ResolvedPromptTemplate[]>(getPromptTemplates());
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(templates[0].id);
+  const selected = templates.find(t => t.id === selectedId)!;
+  const [draft, setDraft] = useState(selected.body);
+  const [variables, setVariables] = useState<EditablePromptVariables>(getPromptVariables());
+  const [savedFlag, setSavedFlag] = useState<string | null>(null);
+
+  const flash = (key: string) => {
+    setSavedFlag(key);
+    setTimeout(() => setSavedFlag(null), 1500);
+  };
+
+  const replaceTemplate = (updated: ResolvedPromptTemplate) => {
+    setTemplates(prev => prev.map(t => (t.id === updated.id ? updated : t)));
+    setDraft(updated.body);
+  };
+
+  const handleSelect = (id: PromptTemplateId) => {
+    if (draft !== selected.body && !confirm("尚未儲存的修改將會遺失，確定切換？")) return;
+    setSelectedId(id);
+    setDraft(templates.find(t => t.id === id)!.body);
+  };
+
+  const handleSave = () => {
+    replaceTemplate(savePromptTemplate(selectedId, draft));
+    flash('template');
+  };
+
+  const handleRestore = () => {
+    if (!confirm("確定還原為預設模板？自訂內容將被刪除。")) return;
+    replaceTemplate(restoreDefaultTemplate(selectedId));
+  };
+
+  const handleSaveVariables = () => {
+    savePromptVariables(variables);
+    flash('variables');
+  };
+
+  const isDirty = draft !== selected.body;
+  const isDefaultBody = draft === DEFAULT_PROMPT_TEMPLATES[selectedId].body;
+
+  return (
+    <div className="space-y-8">
+      {/* Variables */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest">模板變數 (Variables)</h3>
+          <button
+            onClick={handleSaveVariables}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold transition-colors"
+          >
+            {savedFlag === 'variables' ? <Check className="w-3 h-3 text-green-400" /> : <Save className="w-3 h-3" />} 儲存變數
+          </button>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {(Object.keys(variables) as (keyof EditablePromptVariables)[]).map(name => (
+            <label key={name} className="block">
+              <span className="block text-[10px] text-gray-500 font-mono mb-1">{`{{${name}}}`}</span>
+              <input
+                value={variables[name]}
+                onChange={(e) => setVariables(prev => ({ ...prev, [name]: e.target.value }))}
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 outline-none focus:border-indigo-500"
+              />
+            </label>
+          ))}
+        </div>
+        <p className="text-[10px] text-gray-600">{'{{date}}'} 會自動填入當天日期，{'{{language}}'} 由頁首的分析語言決定。</p>
+        {getActiveProviderId() === 'proxy' && (
+          <p className="text-[10px] text-amber-400/80">目前經由 Proxy 呼叫：伺服器一律使用預設模板，自訂模板只在直連 Gemini 時生效，結果記錄的也是預設模板版本；變數仍會套用。</p>
+        )}
+      </section>
+
+      {/* Templates */}
+      <section className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+        <div className="space-y-1">
+          {templates.map(t => (
+            <button
+              key={t.id}
+              onClick={() => handleSelect(t.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg border transition-colors
+                ${t.id === selectedId ? 'border-indigo-500 bg-indigo-500/10' : 'border-transparent hover:bg-gray-900'}
+              `}
+            >
+              <p className="text-xs font-bold text-gray-200 truncate">{t.name}</p>
+              <p className="text-[10px] font-mono text-gray-500">
+                {formatTemplateVersion(t)}{t.revision ? ' · custom' : ''}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-bold text-white">{selected.name}</p>
+              <p className="text-[10px] font-mono text-gray-500">
+                {formatTemplateVersion(selected)}
+                {selected.updatedAt && ` · 更新於 ${new Date(selected.updatedAt).toLocaleString()}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleRestore}
+                disabled={selected.revision === 0}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 disabled:opacity-40 disabled:cursor-not-allowed text-gray-300 text-xs font-bold transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" /> 還原預設
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!isDirty || (selected.revision === 0 && isDefaultBody)}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed text-white text-xs font-bold transition-colors"
+              >
+                {savedFlag === 'template' ? <Check className="w-3 h-3" /> : <Save className="w-3 h-3" />} 儲存 (新版本)
+              </button>
+            </div>
+          </div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={14}
+            className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-xs font-mono text-gray-200 leading-relaxed outline-none focus:border-indigo-500 resize-y"
+          />
+          <p className="text-[10px] text-gray-600">
+            可用變數：{PROMPT_VARIABLE_NAMES.map(name => `{{${name}}}`).join(' ')}
+          </p>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default PromptTemplateSettings;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { LayoutGrid, XCircle } from 'lucide-react';
+import { MediaFile, ReferenceRole } from '../types';
+
+interface ReferenceBoardProps {
+  references: MediaFile[];
+  disabled?: boolean;
+  onChange: (references: MediaFile[]) => void;
+}
+
+export const REFERENCE_ROLES: { value: ReferenceRole; label: string }[] = [
+  { value: 'all', label: '整體 (All)' },
+  { value: 'style', label: '風格 (Style)' },
+  { value: 'composition', label: '構圖 (Composition)' },
+  { value: 'subject', label: '主體 (Subject)' },
+];
+
+const WEIGHTS = [1, 2, 3];
+
+export const ReferenceThumb: React.FC<{ media: MediaFile; className?: string }> = ({ media, className = '' }) =>
+  media.type === 'video' ? (
+    <video src={media.previewUrl} className={`object-cover ${className}`} muted />
+  ) : (
+    <img src={media.previewUrl} className={`object-cover ${className}`} alt="Reference" />
+  );
+
+// Moodboard：每張參考可標註用途與權重，分析時一併送給模型
+const ReferenceBoard: React.FC<ReferenceBoardProps> = ({ references, disabled, onChange }) => {
+  if (references.length < 2) return null;
+
+  const update = (index: number, patch: Partial<MediaFile>) =>
+    onChange(references.map((reference, i) => (i === index ? { ...reference, ...patch } : reference)));
+
+  return (
+    <div className="rounded-xl border border-gray-700 bg-gray-900/60 p-3 space-y-2">
+      <div className="flex items-center justify-between text-[10px] uppercase tracking-wider font-bold">
+        <span className="flex items-center gap-1.5 text-indigo-300">
+          <LayoutGrid className="w-3 h-3" /> Moodboard ({references.length})
+        </span>
+        <span className="text-gray-600 normal-case font-normal">用途與權重會在下次分析 / 修正時套用</span>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {references.map((reference, i) => (
+          <div key={reference.previewUrl ?? i} className="rounded-lg border border-gray-700 bg-black/40 overflow-hidden">
+            <div className="relative h-20 bg-black">
+              <ReferenceThumb media={reference} className="w-full h-full" />
+              <span className="absolute top-1 left-1 px-1.5 rounded bg-black/70 text-white text-[10px] font-bold">#{i + 1}</span>
+              {i > 0 && (
+                <button
+                  onClick={() => onChange(references.filter((_, k) => k !== i))}
+                  disabled={disabled}
+                  className="absolute top-1 right-1 bg-black/50 hover:bg-red-500 disabled:opacity-40 text-white p-0.5 rounded-full"
+                  title="移除此參考"
+                >
+                  <XCircle className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+            <div className="p-1.5 space-y-1">
+              <select
+                value={reference.role ?? 'all'}
+                disabled={disabled}
+                onChange={(e) => update(i, { role: e.target.value as ReferenceRole })}
+                className="w-full bg-gray-950 border border-gray-700 rounded px-1 py-0.5 text-[10px] text-gray-300 outline-none disabled:opacity-50"
+              >
+                {REFERENCE_ROLES.map(role => <option key={role.value} value={role.value}>{role.label}</option>)}
+              </select>
+              <div className="flex gap-1">
+                {WEIGHTS.map(weight => (
+                  <button
+                    key={weight}
+                    disabled={disabled}
+                    onClick={() => update(i, { weight })}
+                    className={`flex-1 rounded text-[10px] font-bold py-0.5 transition-colors disabled:opacity-50
+                      ${(reference.weight ?? 2) === weight ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}
+                    `}
+                    title={`權重 ${weight}`}
+                  >
+                    {'●'.repeat(weight)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReferenceBoard;
@@ -1,66 +1,194 @@
-import React, { useState, useRef } from 'react';
-import { Copy, Check, RefreshCw, Wand2, MessageSquarePlus, ImagePlus, ArrowRight, Upload, Lightbulb, XCircle, Film, AlertCircle, Mic, MicOff } from 'lucide-react';
-import { MediaFile, GenerationState, DirectorResponse } from '../types';
-import { refinePromptWithFeedback, generateVideoPromptFromImage, refineVideoPromptWithFeedback, fileToGenerativePart } from '../services/geminiService';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Copy, Check, RefreshCw, Wand2, MessageSquarePlus, ImagePlus, ArrowRight, Upload, Lightbulb, XCircle, Film, AlertCircle, Mic, MicOff, Square, Database, GitCompare, Ban, LayoutGrid, Clapperboard, LayoutList } from 'lucide-react';
+import { MediaFile, GenerationState, DirectorResponse, PromptFacets, DirectorAnalysisMode, MatchReport, Storyboard, SessionAssets, ResultVersion } from '../types';
+import { refinePromptWithFeedback, generateVideoPromptFromImage, refineVideoPromptWithFeedback, scoreGeneratedMatch, generateStoryboard } from '../services/geminiService';
+import { AIAbortError, AIValidationError } from '../services/aiErrors';
+import { NewVersion, getActiveVersion, findPhaseAncestor } from '../services/versionTree';
+import { PromptTarget, PROMPT_TARGETS, formatPromptForTarget, getPromptTarget, setPromptTarget } from '../services/promptFormatters';
+import KeyframeFilmstrip from './KeyframeFilmstrip';
+import ColorPalettePanel from './ColorPalettePanel';
+import CameraMetaPanel from './CameraMetaPanel';
+import { describeUpload, formatUploadSize } from '../services/imageNormalizer';
+import { DEFAULT_INGEST_OPTIONS, ingestFile } from '../services/mediaIngest';
+import { composePromptFromFacets } from '../services/promptFacets';
+import VersionHistory from './VersionHistory';
+import PromptDiffView from './PromptDiffView';
+import FacetEditor from './FacetEditor';
+import ReferenceBoard, { ReferenceThumb } from './ReferenceBoard';
+import ShotTimeline from './ShotTimeline';
+import MatchReportPanel from './MatchReportPanel';
+import { buildMatchFeedback } from '../services/matchScore';
+import StoryboardEditor from './StoryboardEditor';
+import { STORYBOARD_SHOT_COUNTS, DEFAULT_STORYBOARD_SHOTS } from '../services/storyboard';
 
 interface ResultDisplayProps {
   media: MediaFile;
   additionalMedia?: MediaFile | null; // For Wallpaper mode (Subject context)
+  references?: MediaFile[]; // Moodboard (multi-reference) mode, references[0] === media
+  onUpdateReferences?: (references: MediaFile[]) => void;
   state: GenerationState;
-  onGenerate: () => void;
+  onGenerate: (forceRefresh?: boolean, mode?: DirectorAnalysisMode) => void;
+  onCancel?: () => void;
   onReset: () => void;
-  onUpdateResult: (newResult: DirectorResponse) => void; 
+  onAddVersion: (result: DirectorResponse, version: NewVersion) => void;
+  onSelectVersion: (id: string) => void;
+  initialAssets?: SessionAssets; // 還原工作階段時帶回尚未送出的上傳素材
+  onAssetsChange?: (assets: SessionAssets) => void;
 }
 
-const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, state, onGenerate, onReset, onUpdateResult }) => {
+const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, references, onUpdateReferences, state, onGenerate, onCancel, onReset, onAddVersion, onSelectVersion, initialAssets, onAssetsChange }) => {
   const [copied, setCopied] = useState(false);
+  const [negativeCopied, setNegativeCopied] = useState(false);
+
+  // Target generator formatting (image phase only)
+  const [promptTarget, setPromptTargetState] = useState<PromptTarget>(getPromptTarget());
+  const [mediaSize, setMediaSize] = useState<{ width: number; height: number } | null>(
+    media.videoMeta ? { width: media.videoMeta.width, height: media.videoMeta.height } : null
+  );
+
+  // Reference video playback (shot timeline)
+  const [videoTime, setVideoTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState(media.videoMeta?.duration ?? 0);
+
+  // Diff between two history nodes ([before, after])
+  const [diffPair, setDiffPair] = useState<[string, string] | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
   
-  // Workflow Phase Tracking
-  const [phase, setPhase] = useState<'image-prompt' | 'video-prompt'>('image-prompt');
+  // Workflow Phase Tracking (derived from the active history node)
+  const activeVersion = getActiveVersion(state);
+  const phase = activeVersion?.phase ?? 'image-prompt';
+  const phaseAsset = phase !== 'image-prompt' ? activeVersion?.generatedImage : undefined;
 
   // Refinement States
-  const [activeTab, setActiveTab] = useState<'none' | 'refine' | 'image-to-video'>('none');
+  const [activeTab, setActiveTab] = useState<'none' | 'refine' | 'image-to-video' | 'storyboard'>('none');
+  const [shotCount, setShotCount] = useState(DEFAULT_STORYBOARD_SHOTS);
   const [feedbackText, setFeedbackText] = useState('');
   const [isRefining, setIsRefining] = useState(false);
+  const refineAbortRef = useRef<AbortController | null>(null);
+  const [refinePartial, setRefinePartial] = useState<Partial<DirectorResponse> | null>(null);
   
   // Voice Input State
   const [isListening, setIsListening] = useState(false);
   const recognitionRef = useRef<any>(null);
 
   // State for Review Loop (The "Good" Asset)
-  const [generatedImage, setGeneratedImage] = useState<MediaFile | null>(null);
+  const [generatedImage, setGeneratedImage] = useState<MediaFile | null>(initialAssets?.generatedImage ?? null);
   
   // State for Negative Feedback Loop
-  const [badResultImage, setBadResultImage] = useState<MediaFile | null>(null);
-  const [badResultVideo, setBadResultVideo] = useState<MediaFile | null>(null);
+  const [badResultImage, setBadResultImage] = useState<MediaFile | null>(initialAssets?.badResultImage ?? null);
+  const [badResultVideo, setBadResultVideo] = useState<MediaFile | null>(initialAssets?.badResultVideo ?? null);
+
+  useEffect(() => {
+    onAssetsChange?.({ generatedImage, badResultImage, badResultVideo });
+  }, [generatedImage, badResultImage, badResultVideo]);
 
+  // Match scoring: generated image vs the original reference
+  const [matchReport, setMatchReport] = useState<{ target: MediaFile; report: MatchReport } | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const reportFor = (target: MediaFile | null) => (target && matchReport?.target === target ? matchReport.report : null);
+
+  const referenceVideoRef = useRef<HTMLVideoElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
   const badResultInputRef = useRef<HTMLInputElement>(null);
   const badResultVideoInputRef = useRef<HTMLInputElement>(null);
 
+  // Streaming: show partial text while the initial analysis or a refinement is in flight
+  const streamingResult = state.isLoading ? state.partialResult : isRefining ? refinePartial : null;
+  const isStreaming = !!(streamingResult?.analysis || streamingResult?.prompt);
+  const shownResult = isStreaming ? streamingResult : state.result;
+
+  // Local facet edits recompose the prompt without another model call
+  const [draftFacets, setDraftFacets] = useState<PromptFacets | null>(null);
+  const [draftResetKey, setDraftResetKey] = useState(0);
+  const editedPrompt = draftFacets ? composePromptFromFacets(draftFacets) : null;
+  const shownFacets = draftFacets ?? state.result?.facets;
+  const [draftStoryboard, setDraftStoryboard] = useState<Storyboard | null>(null);
+  const shownStoryboard = draftStoryboard ?? state.result?.storyboard;
+
+  useEffect(() => {
+    setDraftFacets(null);
+    setDraftStoryboard(null);
+    setDraftResetKey(key => key + 1);
+  }, [state.activeVersionId]);
+
+  const activeTarget: PromptTarget = phase === 'image-prompt' ? promptTarget : 'generic';
+  const basePrompt = editedPrompt ?? state.result?.prompt;
+  const formatted = useMemo(
+    () => basePrompt
+      ? formatPromptForTarget(basePrompt, activeTarget, { width: mediaSize?.width, height: mediaSize?.height, negative: shownFacets?.negative })
+      : null,
+    [basePrompt, activeTarget, mediaSize, shownFacets?.negative]
+  );
+
+  const handleDiscardFacets = () => {
+    setDraftFacets(null);
+    setDraftResetKey(key => key + 1);
+  };
+
+  // Save the edited facets as a new history node
+  const handleApplyFacets = () => {
+    if (!state.result || !draftFacets || !editedPrompt) return;
+    onAddVersion(
+      {
+        ...state.result,
+        prompt: editedPrompt,
+        facets: draftFacets,
+        meta: state.result.meta && { templateId: state.result.meta.templateId, templateVersion: state.result.meta.templateVersion },
+      },
+      { parentId: activeVersion?.id ?? null, phase, origin: 'edit', generatedImage: phaseAsset }
+    );
+  };
+
+  const handleDiscardStoryboard = () => {
+    setDraftStoryboard(null);
+    setDraftResetKey(key => key + 1);
+  };
+
+  // Reordered / edited shots are saved as a new storyboard node
+  const handleApplyStoryboard = () => {
+    if (!state.result || !draftStoryboard) return;
+    onAddVersion(
+      {
+        ...state.result,
+        storyboard: draftStoryboard,
+        meta: state.result.meta && { templateId: state.result.meta.templateId, templateVersion: state.result.meta.templateVersion },
+      },
+      { parentId: activeVersion?.id ?? null, phase, origin: 'edit', generatedImage: phaseAsset }
+    );
+  };
+
+  const handleTargetChange = (target: PromptTarget) => {
+    setPromptTarget(target);
+    setPromptTargetState(target);
+  };
+
   const handleCopy = () => {
-    if (state.result && state.result.prompt) {
-      navigator.clipboard.writeText(state.result.prompt);
+    if (formatted) {
+      navigator.clipboard.writeText(formatted.text);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
   };
 
-  // Helper for uploading generic media
-  const handleMediaUpload = async (file: File, setter: (m: MediaFile | null) => void, forcedType?: 'image' | 'video') => {
+  const handleCopyNegative = () => {
+    if (formatted?.negative) {
+      navigator.clipboard.writeText(formatted.negative);
+      setNegativeCopied(true);
+      setTimeout(() => setNegativeCopied(false), 2000);
+    }
+  };
+
+  // Helper for uploading generic media: same pipeline as the main upload (size limits, normalization, metadata stripping)
+  const handleMediaUpload = async (file: File, setter: (m: MediaFile | null) => void, type: 'image' | 'video') => {
+    if (!file.type.startsWith(`${type}/`)) {
+      alert(type === 'image' ? "請選擇圖片檔 (Please choose an image file)." : "請選擇影片檔 (Please choose a video file).");
+      return;
+    }
     try {
-        const { data, mimeType } = await fileToGenerativePart(file);
-        const type = forcedType || (file.type.startsWith('video/') ? 'video' : 'image');
-        setter({
-          file,
-          previewUrl: URL.createObjectURL(file),
-          type,
-          base64Data: data,
-          mimeType: mimeType
-        });
-      } catch (err) {
-        alert("Failed to load media");
-      }
+      setter(await ingestFile(file, DEFAULT_INGEST_OPTIONS));
+    } catch (e: any) {
+      alert(e.message || "Failed to load media");
+    }
   };
 
   // --- VOICE INPUT HANDLER ---
@@ -111,16 +239,16 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
 
   // --- ACTIONS ---
 
-  // 1. Refine (Works for both Image Phase and Video Phase)
-  const handleRefineSubmit = async () => {
-    if (!state.result) return;
-    const hasBadMedia = phase === 'image-prompt' ? !!badResultImage : !!badResultVideo;
-
-    if (!feedbackText.trim() && !hasBadMedia) {
-        alert("請輸入文字回饋或上傳不滿意的生成結果");
-        return;
-    }
+  // 強制重新生成時重跑產生 `regenerating` 的那次呼叫（略過快取），新結果掛在它的父節點下成為新分支
+  const parentOf = (version: ResultVersion) => state.versions?.find(v => v.id === version.parentId);
 
+  // 1. Refine (Works for both Image Phase and Video Phase)
+  const runRefine = async (feedback: string, badMedia?: MediaFile, regenerating?: ResultVersion): Promise<boolean> => {
+    const base = regenerating ? parentOf(regenerating) : activeVersion;
+    const baseResult = regenerating ? base?.result : state.result;
+    if (!baseResult) return false;
+    const controller = new AbortController();
+    refineAbortRef.current = controller;
     setIsRefining(true);
     try {
       let newResponse;
@@ -128,53 +256,206 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
       if (phase === 'image-prompt') {
           // Refine IMAGE Prompt
           newResponse = await refinePromptWithFeedback(
-            media, 
-            state.result, 
-            feedbackText, 
-            badResultImage || undefined,
-            additionalMedia || undefined
+            references && references.length > 1 ? references : media,
+            baseResult,
+            feedback, 
+            badMedia,
+            additionalMedia || undefined,
+            { signal: controller.signal, onPartial: setRefinePartial, forceRefresh: !!regenerating }
           );
       } else {
           // Refine VIDEO Prompt
           // We must have a generatedImage to exist in this phase
-          if (!generatedImage) throw new Error("Missing asset context");
+          if (!phaseAsset) throw new Error("Missing asset context");
 
           newResponse = await refineVideoPromptWithFeedback(
               media,
-              generatedImage,
-              state.result,
-              feedbackText,
-              badResultVideo || undefined
+              phaseAsset,
+              baseResult,
+              feedback,
+              badMedia,
+              { signal: controller.signal, onPartial: setRefinePartial, forceRefresh: !!regenerating }
           );
       }
 
-      onUpdateResult(newResponse);
+      onAddVersion(newResponse, {
+        parentId: base?.id ?? null,
+        phase,
+        origin: 'refine',
+        feedback: feedback || undefined,
+        badResult: badMedia,
+        generatedImage: phaseAsset,
+      });
+      if (regenerating) return true;
       setFeedbackText('');
       setBadResultImage(null);
       setBadResultVideo(null);
+      setMatchReport(null);
       setActiveTab('none');
+      return true;
     } catch (e) {
+      if (e instanceof AIAbortError) return false;
       console.error(e);
-      alert("Refinement failed. Please try again.");
+      alert(e instanceof AIValidationError ? e.message : "Refinement failed. Please try again.");
+      return false;
     } finally {
       setIsRefining(false);
+      setRefinePartial(null);
+      if (refineAbortRef.current === controller) refineAbortRef.current = null;
+    }
+  };
+
+  const handleRefineSubmit = () => {
+    const badMedia = (phase === 'image-prompt' ? badResultImage : badResultVideo) || undefined;
+    if (!feedbackText.trim() && !badMedia) {
+        alert("請輸入文字回饋或上傳不滿意的生成結果");
+        return;
     }
+    // 已評分的失敗圖：自動帶入最弱面向
+    const report = phase === 'image-prompt' ? reportFor(badResultImage) : null;
+    runRefine([feedbackText.trim(), report ? buildMatchFeedback(report) : ''].filter(Boolean).join('\n'), badMedia);
+  };
+
+  // 1b. Score a generated image against the reference (image phase)
+  const handleScoreMatch = async (target: MediaFile) => {
+    const controller = new AbortController();
+    refineAbortRef.current = controller;
+    setIsScoring(true);
+    try {
+      const report = await scoreGeneratedMatch(media, target, { signal: controller.signal });
+      setMatchReport({ target, report });
+    } catch (e) {
+      if (e instanceof AIAbortError) return;
+      console.error(e);
+      alert(e instanceof AIValidationError ? e.message : "Match scoring failed. Please try again.");
+    } finally {
+      setIsScoring(false);
+      if (refineAbortRef.current === controller) refineAbortRef.current = null;
+    }
+  };
+
+  // Refine straight from a match report; the scored image becomes the bad result
+  const handleMatchRefine = async (target: MediaFile) => {
+    const report = reportFor(target);
+    if (!report) return;
+    const refined = await runRefine([feedbackText.trim(), buildMatchFeedback(report)].filter(Boolean).join('\n'), target);
+    if (refined) setGeneratedImage(null);
   };
 
   // 2. Next Step: Image -> Video Prompt
-  const handleVideoPromptSubmit = async () => {
-    if (!generatedImage) return;
+  const runVideoPrompt = async (approvedImage: MediaFile, regenerating?: ResultVersion) => {
+    const base = regenerating ? parentOf(regenerating) : activeVersion;
+    const controller = new AbortController();
+    refineAbortRef.current = controller;
+    setIsRefining(true);
+    try {
+      const newResponse = await generateVideoPromptFromImage(media, approvedImage, {
+        signal: controller.signal,
+        onPartial: setRefinePartial,
+        forceRefresh: !!regenerating,
+      });
+      // Switch Phase: the new node carries the approved asset
+      onAddVersion(newResponse, {
+        parentId: base?.id ?? null,
+        phase: 'video-prompt',
+        origin: 'image-to-video',
+        generatedImage: approvedImage,
+      });
+      if (regenerating) return;
+      setGeneratedImage(null);
+      setActiveTab('none');
+    } catch (e) {
+      if (e instanceof AIAbortError) return;
+      alert(e instanceof AIValidationError ? e.message : "Analysis failed.");
+    } finally {
+      setIsRefining(false);
+      setRefinePartial(null);
+      if (refineAbortRef.current === controller) refineAbortRef.current = null;
+    }
+  };
+
+  const handleVideoPromptSubmit = () => {
+    if (generatedImage) runVideoPrompt(generatedImage);
+  };
+
+  // 3. Storyboard: expand the approved image + motion prompt into N shots
+  const runStoryboard = async (count: number, regenerating?: ResultVersion) => {
+    // base 是提供動態提示詞的 Video 節點
+    const base = regenerating ? parentOf(regenerating) : activeVersion;
+    if (!base || !phaseAsset) return;
+    const imageVersion = findPhaseAncestor(state.versions ?? [], base.id, 'image-prompt');
+    const controller = new AbortController();
+    refineAbortRef.current = controller;
     setIsRefining(true);
     try {
-      const newResponse = await generateVideoPromptFromImage(media, generatedImage);
-      onUpdateResult(newResponse);
-      setPhase('video-prompt'); // Switch Phase
+      const newResponse = await generateStoryboard(
+        media,
+        phaseAsset,
+        imageVersion?.result.prompt ?? '',
+        base.result.prompt,
+        count,
+        { signal: controller.signal, onPartial: setRefinePartial, forceRefresh: !!regenerating }
+      );
+      onAddVersion(newResponse, {
+        parentId: base.id,
+        phase: 'storyboard',
+        origin: 'storyboard',
+        generatedImage: phaseAsset,
+      });
       setActiveTab('none');
     } catch (e) {
-      alert("Analysis failed.");
+      if (e instanceof AIAbortError) return;
+      console.error(e);
+      alert(e instanceof AIValidationError ? e.message : "Storyboard generation failed.");
     } finally {
       setIsRefining(false);
+      setRefinePartial(null);
+      if (refineAbortRef.current === controller) refineAbortRef.current = null;
+    }
+  };
+
+  const handleStoryboardSubmit = () => runStoryboard(shotCount);
+
+  // CACHED 結果：依產生此版本的方式重新呼叫並略過快取
+  const handleForceRegenerate = () => {
+    if (!activeVersion || activeVersion.origin === 'generate') {
+      return onGenerate(true, state.result?.shots ? 'shots' : 'single');
+    }
+    switch (activeVersion.origin) {
+      case 'refine':
+        return runRefine(activeVersion.feedback ?? '', activeVersion.badResult, activeVersion);
+      case 'image-to-video':
+        return activeVersion.generatedImage && runVideoPrompt(activeVersion.generatedImage, activeVersion);
+      case 'storyboard':
+        return runStoryboard(activeVersion.result.storyboard?.shots.length ?? shotCount, activeVersion);
+    }
+  };
+
+  const versions = state.versions ?? [];
+  const versionLabel = (id: string) => `v${versions.findIndex(v => v.id === id) + 1}`;
+  const diffVersions = diffPair && diffPair.map(id => versions.find(v => v.id === id));
+
+  // Pick two history nodes to compare (older one shown as "before")
+  const handleToggleCompare = (id: string) => {
+    const next = compareIds.includes(id) ? compareIds.filter(c => c !== id) : [...compareIds, id];
+    if (next.length < 2) {
+      setCompareIds(next);
+      return;
     }
+    const [a, b] = next.map(c => versions.find(v => v.id === c)!);
+    setDiffPair(a.createdAt <= b.createdAt ? [a.id, b.id] : [b.id, a.id]);
+    setCompareIds([]);
+  };
+
+  const seekReferenceVideo = (time: number) => {
+    if (referenceVideoRef.current) referenceVideoRef.current.currentTime = time;
+    setVideoTime(time);
+  };
+
+  // Cancel whichever request is in flight (initial analysis or refinement)
+  const handleCancel = () => {
+    if (isRefining || isScoring) refineAbortRef.current?.abort();
+    else onCancel?.();
   };
 
   return (
@@ -185,9 +466,24 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
         {/* Main Media Preview */}
         <div className="relative rounded-xl overflow-hidden border border-gray-700 bg-black aspect-video shadow-2xl group">
           {media.type === 'video' ? (
-            <video src={media.previewUrl} controls className="w-full h-full object-contain" />
+            <video
+              ref={referenceVideoRef}
+              src={media.previewUrl}
+              controls
+              className="w-full h-full object-contain"
+              onLoadedMetadata={(e) => {
+                setMediaSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight });
+                setVideoDuration(e.currentTarget.duration);
+              }}
+              onTimeUpdate={(e) => setVideoTime(e.currentTarget.currentTime)}
+            />
           ) : (
-            <img src={media.previewUrl} alt="Original" className="w-full h-full object-contain" />
+            <img
+              src={media.previewUrl}
+              alt="Original"
+              className="w-full h-full object-contain"
+              onLoad={(e) => setMediaSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
           )}
           <button 
             onClick={onReset}
@@ -199,18 +495,52 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
           <div className="absolute bottom-3 left-3 px-2 py-1 bg-black/60 text-white text-[10px] rounded backdrop-blur-sm uppercase tracking-wider font-bold">
             Reference {media.type}
           </div>
+          {media.upload && (
+            <div
+              className="absolute bottom-3 right-3 px-2 py-1 bg-black/60 text-emerald-300 text-[10px] rounded backdrop-blur-sm font-mono"
+              title={describeUpload(media.upload)}
+            >
+              {formatUploadSize(media.upload)}
+            </div>
+          )}
         </div>
 
+        <KeyframeFilmstrip
+          media={media}
+          onSelectTime={seekReferenceVideo}
+        />
+
+        {media.camera && <CameraMetaPanel camera={media.camera} />}
+
+        {media.stats && <ColorPalettePanel stats={media.stats} />}
+
+        {media.type === 'video' && !isStreaming && !!state.result?.shots?.length && (
+          <ShotTimeline shots={state.result.shots} duration={videoDuration} currentTime={videoTime} onSeek={seekReferenceVideo} />
+        )}
+
+        {references && onUpdateReferences && (
+          <ReferenceBoard references={references} disabled={state.isLoading || isRefining} onChange={onUpdateReferences} />
+        )}
+
         {/* Initial Generate Button */}
         {!state.result && !state.isLoading && (
            <button
-             onClick={onGenerate}
+             onClick={() => onGenerate()}
              className="w-full py-4 px-6 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl shadow-lg shadow-indigo-500/30 hover:shadow-indigo-500/50 transition-all flex items-center justify-center gap-2 text-lg"
            >
              <Wand2 className="w-5 h-5" />
              分析素材 & 給我 Image Prompt
            </button>
         )}
+        {!state.result && !state.isLoading && media.type === 'video' && (
+           <button
+             onClick={() => onGenerate(false, 'shots')}
+             className="w-full -mt-3 py-3 px-6 bg-gray-800 hover:bg-gray-700 text-gray-200 font-bold rounded-xl border border-gray-700 transition-all flex items-center justify-center gap-2"
+           >
+             <Clapperboard className="w-4 h-4" />
+             逐鏡頭拆解 (Shot-by-shot Breakdown)
+           </button>
+        )}
 
         {/* Loading State */}
         {(state.isLoading || isRefining) && (
@@ -219,6 +549,14 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
              <span className="text-sm font-medium tracking-wide">
                {isRefining ? 'AI 導演正在調整策略 (Thinking)...' : '正在分析視覺細節...'}
              </span>
+             {(isRefining || onCancel) && (
+               <button
+                 onClick={handleCancel}
+                 className="mt-1 flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-red-600/80 text-gray-300 hover:text-white text-xs font-bold transition-colors animate-none"
+               >
+                 <Square className="w-3 h-3" /> 取消 (Cancel)
+               </button>
+             )}
           </div>
         )}
 
@@ -229,26 +567,28 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
             {/* Phase Indicator */}
             <div className="flex items-center justify-between mb-2">
                 <h4 className="text-gray-400 text-xs font-bold uppercase tracking-widest">
-                    Workflow: {phase === 'image-prompt' ? 'Phase 1 - Static Image' : 'Phase 2 - Video Motion'}
+                    Workflow: {phase === 'image-prompt' ? 'Phase 1 - Static Image' : phase === 'video-prompt' ? 'Phase 2 - Video Motion' : 'Phase 3 - Storyboard'}
                 </h4>
-                {phase === 'video-prompt' && generatedImage && (
+                {phaseAsset && (
                      <div className="flex items-center gap-2 bg-gray-900 px-2 py-1 rounded border border-gray-700">
                          <span className="text-[10px] text-gray-500">Based on Asset:</span>
-                         <img src={generatedImage.previewUrl} className="w-4 h-4 rounded-sm object-cover" />
+                         <img src={phaseAsset.previewUrl} className="w-4 h-4 rounded-sm object-cover" />
                      </div>
                 )}
             </div>
             
             <div className="flex gap-2">
-              <button 
-                onClick={() => setActiveTab(activeTab === 'refine' ? 'none' : 'refine')}
-                className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2
-                  ${activeTab === 'refine' ? 'bg-red-600/80 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}
-                `}
-              >
-                <MessageSquarePlus className="w-4 h-4" />
-                {phase === 'image-prompt' ? 'Image 失敗 (Refine)' : 'Video 失敗 (Refine)'}
-              </button>
+              {phase !== 'storyboard' && (
+                <button 
+                  onClick={() => setActiveTab(activeTab === 'refine' ? 'none' : 'refine')}
+                  className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2
+                    ${activeTab === 'refine' ? 'bg-red-600/80 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}
+                  `}
+                >
+                  <MessageSquarePlus className="w-4 h-4" />
+                  {phase === 'image-prompt' ? 'Image 失敗 (Refine)' : 'Video 失敗 (Refine)'}
+                </button>
+              )}
               
               {/* Only show "Next Step" if we are in Image Phase */}
               {phase === 'image-prompt' && (
@@ -262,8 +602,53 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
                     圖片成功 (Next Step)
                   </button>
               )}
+
+              {/* Phase 3: expand the approved clip into a multi-shot sequence */}
+              {phase === 'video-prompt' && (
+                  <button 
+                    onClick={() => setActiveTab(activeTab === 'storyboard' ? 'none' : 'storyboard')}
+                    className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2
+                    ${activeTab === 'storyboard' ? 'bg-amber-600 text-white' : 'bg-gray-800 hover:bg-gray-700 text-gray-300'}
+                    `}
+                  >
+                    <LayoutList className="w-4 h-4" />
+                    影片成功 (Storyboard)
+                  </button>
+              )}
+              {phase === 'storyboard' && (
+                  <p className="text-xs text-gray-400">在右側編輯、排序鏡頭，儲存後會成為新版本；要重新展開請回到 Video 版本。</p>
+              )}
             </div>
 
+            {/* TAB: STORYBOARD (Video Phase) */}
+            {activeTab === 'storyboard' && phase === 'video-prompt' && (
+              <div className="mt-2 animate-in slide-in-from-top-2 duration-200 bg-gray-900/50 p-3 rounded-lg border border-gray-700">
+                <p className="text-xs text-gray-400 mb-3">
+                  把這支影片延伸成多鏡頭短片（素材組合包 / 廣告），角色、服裝、光線與時間會在每一鏡保持一致。
+                </p>
+                <div className="flex items-center gap-2 mb-3">
+                  <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">Shots</span>
+                  {STORYBOARD_SHOT_COUNTS.map(count => (
+                    <button
+                      key={count}
+                      onClick={() => setShotCount(count)}
+                      className={`flex-1 py-1 rounded text-xs font-bold transition-colors
+                        ${shotCount === count ? 'bg-amber-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-gray-200'}
+                      `}
+                    >
+                      {count}
+                    </button>
+                  ))}
+                </div>
+                <button 
+                  onClick={handleStoryboardSubmit}
+                  className="w-full py-2 bg-amber-600 hover:bg-amber-500 text-white rounded-lg text-sm font-medium flex items-center justify-center gap-2"
+                >
+                  展開為 {shotCount} 鏡分鏡腳本 <ArrowRight className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+
             {/* TAB: REFINE (Handles BOTH Phases) */}
             {activeTab === 'refine' && (
               <div className="mt-2 animate-in slide-in-from-top-2 duration-200 bg-gray-900/50 p-3 rounded-lg border border-gray-700">
@@ -299,6 +684,17 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
                             </div>
                         )
                     )}
+                    {phase === 'image-prompt' && badResultImage && (
+                        <MatchReportPanel
+                            reference={media}
+                            generated={badResultImage}
+                            report={reportFor(badResultImage)}
+                            isScoring={isScoring}
+                            disabled={isRefining}
+                            onScore={() => handleScoreMatch(badResultImage)}
+                            onRefine={() => handleMatchRefine(badResultImage)}
+                        />
+                    )}
 
                     {/* CASE 2: VIDEO PHASE REFINEMENT */}
                     {phase === 'video-prompt' && (
@@ -399,6 +795,17 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
                     </button>
                   </div>
                 )}
+                {generatedImage && (
+                  <MatchReportPanel
+                    reference={media}
+                    generated={generatedImage}
+                    report={reportFor(generatedImage)}
+                    isScoring={isScoring}
+                    disabled={isRefining}
+                    onScore={() => handleScoreMatch(generatedImage)}
+                    onRefine={() => handleMatchRefine(generatedImage)}
+                  />
+                )}
                 
                 <input 
                   type="file" 
@@ -419,12 +826,25 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
             )}
           </div>
         )}
+
+        {/* VERSION HISTORY: restore any node; refining from an older node creates a branch */}
+        <VersionHistory
+          versions={versions}
+          activeVersionId={state.activeVersionId}
+          disabled={state.isLoading || isRefining}
+          onSelect={(id) => {
+            onSelectVersion(id);
+            setActiveTab('none');
+          }}
+          compareIds={compareIds}
+          onToggleCompare={handleToggleCompare}
+        />
       </div>
 
       {/* RIGHT COLUMN: OUTPUT TEXT */}
       <div className="flex flex-col h-full gap-4">
         
-        {state.isLoading ? (
+        {state.isLoading && !isStreaming ? (
              <div className="flex-grow rounded-xl border border-gray-800 bg-gray-900/50 flex flex-col items-center justify-center text-gray-500 gap-4 min-h-[400px]">
                 <div className="space-y-3 w-3/4 animate-pulse">
                   <div className="h-2 bg-gray-800 rounded w-full"></div>
@@ -433,13 +853,24 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
                 </div>
                 <p className="text-xs font-mono text-indigo-400/70">AI 正在思考中...</p>
              </div>
-        ) : !state.result ? (
+        ) : !shownResult ? (
             <div className="flex-grow rounded-xl border border-gray-800 bg-gray-900/50 flex flex-col items-center justify-center text-gray-600 min-h-[400px]">
                <Wand2 className="w-10 h-10 mb-3 opacity-20" />
                <p className="text-sm">等待指示。</p>
             </div>
         ) : (
           <>
+            {/* VERSION DIFF */}
+            {!isStreaming && diffVersions?.[0] && diffVersions[1] && (
+              <PromptDiffView
+                before={diffVersions[0].result}
+                after={diffVersions[1].result}
+                beforeLabel={versionLabel(diffVersions[0].id)}
+                afterLabel={versionLabel(diffVersions[1].id)}
+                onClose={() => setDiffPair(null)}
+              />
+            )}
+
             {/* BOX 1: CHINESE STRATEGY */}
             <div className="rounded-xl border border-indigo-500/30 bg-gray-900 shadow-lg flex flex-col overflow-hidden">
                <div className="px-4 py-3 border-b border-gray-800 bg-gray-800/50 flex items-center justify-between">
@@ -447,35 +878,181 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
                     <Lightbulb className="w-4 h-4 text-yellow-500" />
                     <h3 className="text-sm font-semibold text-gray-200">導演策略 (Strategy & Analysis)</h3>
                  </div>
-                 {phase === 'video-prompt' && (
+                 {isStreaming && (
+                     <span className="text-[10px] bg-indigo-900/50 text-indigo-300 px-2 py-0.5 rounded border border-indigo-500/30 animate-pulse">
+                        STREAMING
+                     </span>
+                 )}
+                 {!isStreaming && phase === 'video-prompt' && (
                      <span className="text-[10px] bg-green-900/50 text-green-400 px-2 py-0.5 rounded border border-green-500/30">
                         VIDEO PHASE
                      </span>
                  )}
+                 {!isStreaming && phase === 'storyboard' && (
+                     <span className="text-[10px] bg-amber-900/50 text-amber-300 px-2 py-0.5 rounded border border-amber-500/30">
+                        STORYBOARD PHASE
+                     </span>
+                 )}
                </div>
+               {!isStreaming && state.result?.meta && (
+                 <div className="px-4 pt-2 -mb-3 flex items-center gap-2 text-[10px] font-mono text-gray-600">
+                   <span title="Prompt template version">{state.result.meta.templateVersion}</span>
+                   {state.result.meta.cached && (
+                     <>
+                       <span
+                         className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-500/10 border border-amber-500/30 text-amber-300"
+                         title={state.result.meta.cachedAt ? `Cached ${new Date(state.result.meta.cachedAt).toLocaleString()}` : undefined}
+                       >
+                         <Database className="w-2.5 h-2.5" /> CACHED
+                       </span>
+                       {activeVersion?.origin !== 'edit' && (
+                         <button onClick={handleForceRegenerate} disabled={isRefining} className="underline hover:text-white disabled:opacity-50 disabled:no-underline">
+                           強制重新生成 (Force regenerate)
+                         </button>
+                       )}
+                     </>
+                   )}
+                 </div>
+               )}
                <div className="p-5 text-gray-300 text-sm leading-relaxed whitespace-pre-wrap">
-                 {state.result.analysis}
+                 {shownResult.analysis}
+                 {isStreaming && !shownResult.prompt && <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-indigo-400 animate-pulse" />}
                </div>
             </div>
 
+            {/* REFERENCE BREAKDOWN (multi-reference analysis) */}
+            {!isStreaming && !!state.result?.referenceNotes?.length && (
+              <div className="rounded-xl border border-gray-700 bg-gray-900 shadow-lg overflow-hidden">
+                <div className="px-4 py-3 border-b border-gray-800 bg-gray-800/50 flex items-center gap-2">
+                  <LayoutGrid className="w-4 h-4 text-indigo-400" />
+                  <h3 className="text-sm font-semibold text-gray-200">參考來源拆解 (Reference Breakdown)</h3>
+                </div>
+                <ul className="p-4 space-y-3">
+                  {state.result.referenceNotes.map(note => {
+                    const reference = references?.[note.index - 1];
+                    return (
+                      <li key={note.index} className="flex items-start gap-3">
+                        {reference ? (
+                          <ReferenceThumb media={reference} className="w-10 h-10 rounded border border-gray-700 flex-shrink-0" />
+                        ) : (
+                          <div className="w-10 h-10 rounded border border-gray-700 bg-gray-800 flex-shrink-0" />
+                        )}
+                        <div className="text-sm text-gray-300 leading-relaxed">
+                          <span className="text-[10px] font-bold text-indigo-300 mr-1.5">#{note.index}</span>
+                          {note.contribution}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
             {/* BOX 2: ENGLISH PROMPT */}
             <div className="flex-grow rounded-xl border border-gray-700 bg-black shadow-lg flex flex-col overflow-hidden">
                <div className="px-4 py-3 border-b border-gray-800 bg-gray-900 flex items-center justify-between">
-                 <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider">
-                    {phase === 'image-prompt' ? 'English Image Prompt' : 'English Video Prompt'}
+                 <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                    {phase === 'image-prompt' ? 'English Image Prompt' : phase === 'video-prompt' ? 'English Video Prompt' : 'Sequence Style Prompt'}
+                    {!isStreaming && editedPrompt && (
+                      <span className="text-[10px] normal-case tracking-normal bg-indigo-900/50 text-indigo-300 px-2 py-0.5 rounded border border-indigo-500/30">
+                        EDITED
+                      </span>
+                    )}
                  </h3>
-                 <button 
-                  onClick={handleCopy}
-                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-medium transition-colors shadow-lg shadow-indigo-900/50"
-                 >
-                   {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
-                   {copied ? 'Copied!' : 'Copy Prompt'}
-                 </button>
+                 <div className="flex items-center gap-2">
+                   {phase === 'image-prompt' && (
+                     <select
+                      value={promptTarget}
+                      onChange={(e) => handleTargetChange(e.target.value as PromptTarget)}
+                      disabled={isStreaming}
+                      className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1.5 text-xs text-gray-300 outline-none cursor-pointer disabled:opacity-50"
+                      title="目標生成器格式 (Target generator)"
+                     >
+                       {(Object.keys(PROMPT_TARGETS) as PromptTarget[]).map(target => (
+                         <option key={target} value={target}>{PROMPT_TARGETS[target].label}</option>
+                       ))}
+                     </select>
+                   )}
+                   {!isStreaming && activeVersion?.parentId && (
+                     <button
+                      onClick={() => setDiffPair([activeVersion.parentId!, activeVersion.id])}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-gray-800 hover:bg-gray-700 text-amber-300 text-xs font-medium transition-colors"
+                      title="與上一版比較 (Diff vs previous)"
+                     >
+                       <GitCompare className="w-3 h-3" />
+                       Diff {versionLabel(activeVersion.parentId)}
+                     </button>
+                   )}
+                   <button 
+                    onClick={handleCopy}
+                    disabled={isStreaming}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-xs font-medium transition-colors shadow-lg shadow-indigo-900/50"
+                   >
+                     {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                     {copied ? 'Copied!' : 'Copy Prompt'}
+                   </button>
+                 </div>
                </div>
                <div className="p-5 flex-grow font-mono text-sm text-green-400 leading-relaxed whitespace-pre-wrap overflow-y-auto max-h-[400px]">
-                 {state.result.prompt}
+                 {isStreaming ? shownResult.prompt : formatted?.text ?? shownResult.prompt}
+                 {isStreaming && shownResult.prompt && <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-green-400 animate-pulse" />}
                </div>
+               {!isStreaming && formatted && (
+                 <div className="px-5 pb-3 flex items-center justify-between text-[10px] font-mono">
+                   <span className={formatted.length > formatted.limit ? 'text-red-400' : 'text-gray-600'}>
+                     {formatted.length} / {formatted.limit} {formatted.unit}
+                   </span>
+                   {formatted.truncated && (
+                     <span className="text-amber-300">已依 {PROMPT_TARGETS[activeTarget].label} 長度上限截斷 (Truncated)</span>
+                   )}
+                 </div>
+               )}
+               {!isStreaming && formatted?.negative && (
+                 <div className="border-t border-gray-800">
+                   <div className="px-4 py-2 flex items-center justify-between">
+                     <h4 className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
+                       <Ban className="w-3 h-3 text-red-400" /> Negative Prompt
+                     </h4>
+                     <button
+                      onClick={handleCopyNegative}
+                      className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-gray-800 hover:bg-gray-700 text-gray-300 text-[10px] font-medium transition-colors"
+                     >
+                       {negativeCopied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+                       {negativeCopied ? 'Copied!' : 'Copy'}
+                     </button>
+                   </div>
+                   <div className="px-5 pb-4 font-mono text-xs text-red-300/80 leading-relaxed whitespace-pre-wrap">
+                     {formatted.negative}
+                   </div>
+                 </div>
+               )}
             </div>
+
+            {/* BOX 3: STRUCTURED FACETS (editable) */}
+            {!isStreaming && shownFacets && (
+              <FacetEditor
+                key={draftResetKey}
+                facets={shownFacets}
+                dirty={!!draftFacets}
+                disabled={isRefining}
+                onChange={setDraftFacets}
+                onApply={handleApplyFacets}
+                onDiscard={handleDiscardFacets}
+              />
+            )}
+
+            {/* BOX 4: STORYBOARD (editable, reorderable shots) */}
+            {!isStreaming && shownStoryboard && (
+              <StoryboardEditor
+                key={draftResetKey}
+                storyboard={shownStoryboard}
+                dirty={!!draftStoryboard}
+                disabled={isRefining}
+                onChange={setDraftStoryboard}
+                onApply={handleApplyStoryboard}
+                onDiscard={handleDiscardStoryboard}
+              />
+            )}
           </>
         )}
 
@@ -485,9 +1062,14 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ media, additionalMedia, s
                   <AlertCircle className="w-5 h-5" />
               </div>
               <div>
-                <p className="font-bold">Error</p>
+                <p className="font-bold">{state.validationIssues ? 'Invalid AI Response' : 'Error'}</p>
                 <p>{state.error}</p>
-                <button onClick={onGenerate} className="mt-2 text-xs underline hover:text-white">Retry</button>
+                {state.validationIssues && (
+                  <ul className="mt-2 list-disc list-inside text-xs font-mono text-red-300/80 space-y-0.5">
+                    {state.validationIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+                  </ul>
+                )}
+                <button onClick={() => onGenerate(false, state.failedMode)} className="mt-2 text-xs underline hover:text-white">Retry</button>
               </div>
             </div>
         )}
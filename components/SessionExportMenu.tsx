@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Download, FileText, FileJson, FileCode, Printer, Loader2 } from 'lucide-react';
+import { SessionSnapshot } from '../services/sessionStore';
+import { SessionExportFormat, exportSession } from '../services/sessionExport';
+
+interface SessionExportMenuProps {
+  getSnapshot: () => SessionSnapshot | null;
+}
+
+const FORMATS: { format: SessionExportFormat; label: string; icon: React.ElementType; title: string }[] = [
+  { format: 'markdown', label: 'Markdown', icon: FileText, title: '匯出 Markdown 報告' },
+  { format: 'html', label: 'HTML', icon: FileCode, title: '匯出可列印的 HTML 報告' },
+  { format: 'pdf', label: 'PDF', icon: Printer, title: '開啟報告並列印 / 另存 PDF' },
+  { format: 'json', label: 'JSON', icon: FileJson, title: '匯出完整工作階段（可再匯入繼續）' },
+];
+
+// 客戶交付：整個工作階段匯出為報告或可再匯入的 JSON
+const SessionExportMenu: React.FC<SessionExportMenuProps> = ({ getSnapshot }) => {
+  const [exporting, setExporting] = useState<SessionExportFormat | null>(null);
+
+  const handleExport = async (format: SessionExportFormat) => {
+    const snapshot = getSnapshot();
+    if (!snapshot) return;
+    setExporting(format);
+    try {
+      await exportSession(snapshot, format);
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message || "Export failed.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-1.5 text-xs">
+      <span className="flex items-center gap-1 text-gray-500 mr-1">
+        <Download className="w-3 h-3" /> 匯出
+      </span>
+      {FORMATS.map(({ format, label, icon: Icon, title }) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={!!exporting}
+          className="flex items-center gap-1 px-2.5 py-1 rounded-md bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 font-medium transition-colors"
+          title={title}
+        >
+          {exporting === format ? <Loader2 className="w-3 h-3 animate-spin" /> : <Icon className="w-3 h-3" />}
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default SessionExportMenu;
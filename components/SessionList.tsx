@@ -0,0 +1,150 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderOpen, Trash2, Pencil, HardDrive, ImageOff, Upload } from 'lucide-react';
+import { DirectorPhase, DirectorSession } from '../types';
+import { StorageEstimate, deleteSession, getStorageEstimate, listSessions, renameSession } from '../services/sessionStore';
+import { formatBytes } from '../services/byteSize';
+
+interface SessionListProps {
+  onResume: (id: string) => void;
+  onImport: (file: File) => void; // 匯入先前匯出的 JSON
+}
+
+const PHASE_LABELS: Record<DirectorPhase, string> = {
+  'image-prompt': 'Image',
+  'video-prompt': 'Video',
+  'storyboard': 'Storyboard',
+};
+
+// 已儲存的 Director 工作階段：繼續 / 重新命名 / 刪除，並顯示瀏覽器儲存空間用量
+const SessionList: React.FC<SessionListProps> = ({ onResume, onImport }) => {
+  const [sessions, setSessions] = useState<DirectorSession[]>([]);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      const [list, storage] = await Promise.all([listSessions(), getStorageEstimate()]);
+      setSessions(list);
+      setEstimate(storage);
+    } catch (e) {
+      console.error("Failed to load sessions", e);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleRename = async (session: DirectorSession) => {
+    const name = prompt("工作階段名稱", session.name)?.trim();
+    if (!name || name === session.name) return;
+    await renameSession(session.id, name);
+    refresh();
+  };
+
+  const handleDelete = async (session: DirectorSession) => {
+    if (!confirm(`確定刪除「${session.name}」？`)) return;
+    await deleteSession(session.id);
+    refresh();
+  };
+
+  const importButton = (
+    <>
+      <button
+        onClick={() => importInputRef.current?.click()}
+        className="flex items-center gap-1 px-2 py-1 rounded-md bg-gray-800 hover:bg-gray-700 text-gray-300 normal-case"
+        title="匯入工作階段 JSON"
+      >
+        <Upload className="w-3 h-3" /> 匯入 JSON
+      </button>
+      <input
+        type="file"
+        ref={importInputRef}
+        className="hidden"
+        accept="application/json,.json"
+        onChange={(e) => {
+          if (e.target.files?.[0]) onImport(e.target.files[0]);
+          e.target.value = '';
+        }}
+      />
+    </>
+  );
+
+  if (!sessions.length) {
+    return <div className="mt-6 flex justify-center text-[10px] font-bold">{importButton}</div>;
+  }
+
+  const usagePercent = estimate?.quota ? (estimate.usage / estimate.quota) * 100 : 0;
+
+  return (
+    <div className="mt-8 space-y-3">
+      <div className="flex items-center justify-between text-[10px] uppercase tracking-wider font-bold">
+        <span className="flex items-center gap-1.5 text-indigo-300">
+          <FolderOpen className="w-3 h-3" /> 工作階段 (Sessions · {sessions.length})
+        </span>
+        <div className="flex items-center gap-3">
+          {estimate && (
+            <span className="flex items-center gap-2 text-gray-500 normal-case font-mono" title="瀏覽器儲存空間 (Storage quota)">
+              <HardDrive className="w-3 h-3" />
+              {formatBytes(estimate.usage)} / {formatBytes(estimate.quota)}
+              <span className="w-16 h-1.5 rounded-full bg-gray-800 overflow-hidden">
+                <span
+                  className={`block h-full ${usagePercent > 80 ? 'bg-red-500' : 'bg-indigo-500'}`}
+                  style={{ width: `${Math.max(usagePercent, 1)}%` }}
+                />
+              </span>
+            </span>
+          )}
+          {importButton}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {sessions.map(session => {
+          const active = session.versions.find(v => v.id === session.activeVersionId);
+          return (
+            <div key={session.id} className="group flex gap-3 rounded-xl border border-gray-800 bg-gray-900/60 hover:border-indigo-500/50 p-2 transition-colors">
+              <button onClick={() => onResume(session.id)} className="flex-1 min-w-0 flex gap-3 text-left" title="繼續此工作階段">
+                {session.thumbnail ? (
+                  <img src={session.thumbnail} className="w-16 h-16 rounded-lg object-cover flex-shrink-0" alt="" />
+                ) : (
+                  <div className="w-16 h-16 rounded-lg bg-gray-800 flex items-center justify-center flex-shrink-0">
+                    <ImageOff className="w-5 h-5 text-gray-600" />
+                  </div>
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-bold text-gray-200 truncate">{session.name}</p>
+                  <p className="text-[10px] text-gray-500">
+                    {session.references.length > 1 && `${session.references.length} refs · `}
+                    {session.versions.length} versions{active && ` · ${PHASE_LABELS[active.phase]}`}
+                  </p>
+                  <p className="text-[10px] font-mono text-gray-600">
+                    {new Date(session.updatedAt).toLocaleString()} · {formatBytes(session.sizeBytes)}
+                  </p>
+                </div>
+              </button>
+              <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => handleRename(session)}
+                  className="p-1 rounded text-gray-500 hover:text-white hover:bg-gray-700"
+                  title="重新命名"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => handleDelete(session)}
+                  className="p-1 rounded text-gray-500 hover:text-red-400 hover:bg-gray-700"
+                  title="刪除"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SessionList;
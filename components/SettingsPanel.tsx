@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { X, Settings, FileText, Database, Coins, Cpu, ImageDown } from 'lucide-react';
+import PromptTemplateSettings from './PromptTemplateSettings';
+import CacheSettings from './CacheSettings';
+import UsageSettings from './UsageSettings';
+import ModelSettings from './ModelSettings';
+import UploadSettings from './UploadSettings';
+
+export type SettingsTab = 'models' | 'templates' | 'upload' | 'cache' | 'usage';
+
+interface SettingsPanelProps {
+  initialTab?: SettingsTab;
+  onClose: () => void;
+}
+
+const TABS: { id: SettingsTab; label: string; icon: React.ElementType }[] = [
+  { id: 'models', label: '模型與參數 (Models)', icon: Cpu },
+  { id: 'templates', label: '提示詞模板 (Templates)', icon: FileText },
+  { id: 'upload', label: '上傳壓縮 (Upload)', icon: ImageDown },
+  { id: 'cache', label: '回應快取 (Cache)', icon: Database },
+  { id: 'usage', label: '用量與費用 (Usage)', icon: Coins },
+];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ initialTab = 'templates', onClose }) => {
+  const [activeTab, setActiveTab] = useState<SettingsTab>(initialTab);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl h-[85vh] bg-gray-950 border border-gray-800 rounded-2xl shadow-2xl flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-800 flex items-center justify-between bg-gray-900/60">
+          <h2 className="text-lg font-black text-white flex items-center gap-2">
+            <Settings className="w-5 h-5 text-indigo-400" /> 設定 (Settings)
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-full text-gray-400 hover:text-white hover:bg-gray-800 transition-colors" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-grow overflow-hidden">
+          <nav className="w-56 flex-shrink-0 border-r border-gray-800 p-3 space-y-1 bg-gray-900/30">
+            {TABS.map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => setActiveTab(id)}
+                className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-colors text-left
+                  ${activeTab === id ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'}
+                `}
+              >
+                <Icon className="w-4 h-4 flex-shrink-0" /> {label}
+              </button>
+            ))}
+          </nav>
+
+          <div className="flex-grow overflow-y-auto p-6">
+            {activeTab === 'models' && <ModelSettings />}
+            {activeTab === 'templates' && <PromptTemplateSettings />}
+            {activeTab === 'upload' && <UploadSettings />}
+            {activeTab === 'cache' && <CacheSettings />}
+            {activeTab === 'usage' && <UsageSettings />}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,143 @@
+import React, { useRef, useState } from 'react';
+import { Clapperboard, Copy, Check, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ShotBreakdown } from '../types';
+
+interface ShotTimelineProps {
+  shots: ShotBreakdown[];
+  duration: number;      // 影片長度（秒），未知時以最後一個鏡頭結束時間為準
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+const SEGMENT_COLORS = ['bg-indigo-500/40', 'bg-violet-500/40', 'bg-sky-500/40', 'bg-emerald-500/40'];
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+const CopyButton: React.FC<{ text: string }> = ({ text }) => {
+  const [copied, setCopied] = useState(false);
+  return (
+    <button
+      onClick={() => {
+        navigator.clipboard.writeText(text);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      }}
+      className="p-1 rounded text-gray-500 hover:text-white hover:bg-gray-700 flex-shrink-0"
+      title="Copy"
+    >
+      {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+    </button>
+  );
+};
+
+const ShotTimeline: React.FC<ShotTimelineProps> = ({ shots, duration, currentTime, onSeek }) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+
+  if (!shots.length) return null;
+
+  const total = Math.max(duration || 0, shots[shots.length - 1].end) || 1;
+  const found = shots.findIndex(shot => currentTime >= shot.start && currentTime < shot.end);
+  const activeIndex = found !== -1 ? found : currentTime >= shots[shots.length - 1].end ? shots.length - 1 : 0;
+  const active = shots[activeIndex];
+
+  const timeFromPointer = (clientX: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    return Math.min(total, Math.max(0, ((clientX - rect.left) / rect.width) * total));
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-700 bg-gray-900/60 p-3 space-y-3">
+      <div className="flex items-center justify-between text-[10px] uppercase tracking-wider font-bold">
+        <span className="flex items-center gap-1.5 text-indigo-300">
+          <Clapperboard className="w-3 h-3" /> Shot List ({shots.length})
+        </span>
+        <span className="text-gray-500 font-mono normal-case">{formatTime(currentTime)} / {formatTime(total)}</span>
+      </div>
+
+      {/* Scrubbable timeline */}
+      <div
+        ref={barRef}
+        className="relative h-10 rounded-lg bg-gray-950 border border-gray-800 overflow-hidden cursor-pointer select-none touch-none"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setIsScrubbing(true);
+          onSeek(timeFromPointer(e.clientX));
+        }}
+        onPointerMove={(e) => isScrubbing && onSeek(timeFromPointer(e.clientX))}
+        onPointerUp={() => setIsScrubbing(false)}
+        onPointerCancel={() => setIsScrubbing(false)}
+      >
+        {shots.map((shot, i) => (
+          <div
+            key={i}
+            className={`absolute top-0 bottom-0 border-r border-gray-950 flex items-center justify-center text-[10px] font-bold transition-opacity
+              ${SEGMENT_COLORS[i % SEGMENT_COLORS.length]} ${i === activeIndex ? 'opacity-100 text-white' : 'opacity-60 text-gray-300'}
+            `}
+            style={{ left: `${(shot.start / total) * 100}%`, width: `${((shot.end - shot.start) / total) * 100}%` }}
+            title={`#${i + 1} ${shot.shotSize} · ${formatTime(shot.start)}–${formatTime(shot.end)}`}
+          >
+            #{i + 1}
+          </div>
+        ))}
+        <div
+          className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_6px_rgba(255,255,255,0.8)] pointer-events-none"
+          style={{ left: `${(Math.min(currentTime, total) / total) * 100}%` }}
+        />
+      </div>
+
+      {/* Active shot details */}
+      <div className="rounded-lg border border-gray-800 bg-black/30 p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-bold text-gray-200">
+            Shot #{activeIndex + 1}
+            <span className="ml-2 font-mono font-normal text-gray-500">{formatTime(active.start)} – {formatTime(active.end)}</span>
+          </p>
+          <div className="flex gap-1">
+            <button
+              onClick={() => onSeek(shots[activeIndex - 1].start)}
+              disabled={activeIndex === 0}
+              className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30"
+              title="上一鏡"
+            >
+              <ChevronLeft className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => onSeek(shots[activeIndex + 1].start)}
+              disabled={activeIndex === shots.length - 1}
+              className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30"
+              title="下一鏡"
+            >
+              <ChevronRight className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[11px]">
+          <p><span className="text-gray-500">景別 </span><span className="text-gray-200">{active.shotSize}</span></p>
+          <p><span className="text-gray-500">運鏡 </span><span className="text-gray-200">{active.cameraMovement}</span></p>
+          <p><span className="text-gray-500">焦段 </span><span className="text-gray-200">{active.lens}</span></p>
+          <p><span className="text-gray-500">轉場 </span><span className="text-gray-200">{active.transition}</span></p>
+        </div>
+        <p className="text-xs text-gray-300 leading-relaxed">{active.description}</p>
+        {[
+          { label: 'Image Prompt', text: active.imagePrompt, color: 'text-green-400' },
+          { label: 'Motion Prompt', text: active.motionPrompt, color: 'text-sky-300' },
+        ].map(({ label, text, color }) => (
+          <div key={label} className="flex items-start gap-2">
+            <div className="min-w-0 flex-1">
+              <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">{label}</p>
+              <p className={`text-xs font-mono leading-relaxed ${color}`}>{text}</p>
+            </div>
+            <CopyButton text={text} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ShotTimeline;
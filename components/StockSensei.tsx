@@ -1,8 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { MediaFile, StockSenseiResponse, MarketInsight, MarketEvent } from '../types';
 import FileUpload from './FileUpload';
+import KeyframeFilmstrip from './KeyframeFilmstrip';
 import { generateStockSenseiAnalysis, getMarketInsights } from '../services/geminiService';
-import { TrendingUp, Search, Copy, Check, AlertCircle, BarChart3, ChevronRight, Type as TextIcon, Image as ImageIcon, Brain, Calendar, Zap, Lightbulb, ChevronDown } from 'lucide-react';
+import { AIAbortError, AIValidationError } from '../services/aiErrors';
+import { TrendingUp, Search, Copy, Check, AlertCircle, BarChart3, ChevronRight, Type as TextIcon, Image as ImageIcon, Brain, Calendar, Zap, Lightbulb, ChevronDown, Square, Database } from 'lucide-react';
 
 const StockSensei: React.FC = () => {
   const [media, setMedia] = useState<MediaFile | null>(null);
@@ -11,22 +13,27 @@ const StockSensei: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<StockSenseiResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [validationIssues, setValidationIssues] = useState<string[] | null>(null);
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
+  const seoAbortRef = useRef<AbortController | null>(null);
 
   // AI Smart Brain State
   const [insights, setInsights] = useState<MarketInsight | null>(null);
   const [isInsightLoading, setIsInsightLoading] = useState(false);
   const [selectedEvent, setSelectedEvent] = useState<MarketEvent | null>(null);
+  const [insightError, setInsightError] = useState<string | null>(null);
 
-  const fetchInsights = async () => {
+  const fetchInsights = async (forceRefresh = false) => {
     setIsInsightLoading(true);
+    setInsightError(null);
     try {
-      const data = await getMarketInsights();
+      const data = await getMarketInsights({ forceRefresh });
       setInsights(data);
       // Automatically select first event if available
       if (data.upcomingEvents.length > 0) setSelectedEvent(data.upcomingEvents[0]);
-    } catch (err) {
+    } catch (err: any) {
       console.error("Failed to fetch insights", err);
+      setInsightError(err.message || "市場洞察載入失敗");
     } finally {
       setIsInsightLoading(false);
     }
@@ -42,23 +49,29 @@ const StockSensei: React.FC = () => {
     setError(null);
   };
 
-  const handleAnalyze = async () => {
+  const handleAnalyze = async (forceRefresh = false) => {
     if (inputType === 'file' && !media) return;
     if (inputType === 'text' && !textInput.trim()) return;
 
+    const controller = new AbortController();
+    seoAbortRef.current = controller;
     setIsLoading(true);
     setError(null);
+    setValidationIssues(null);
     try {
       const payload: MediaFile = inputType === 'text' 
         ? { type: 'text', textContent: textInput }
         : media!;
       
-      const data = await generateStockSenseiAnalysis(payload);
+      const data = await generateStockSenseiAnalysis(payload, { signal: controller.signal, forceRefresh });
       setResult(data);
     } catch (err: any) {
+      if (err instanceof AIAbortError) return;
       setError(err.message || "SEO 生成失敗");
+      if (err instanceof AIValidationError) setValidationIssues(err.issues);
     } finally {
       setIsLoading(false);
+      if (seoAbortRef.current === controller) seoAbortRef.current = null;
     }
   };
 
@@ -113,6 +126,7 @@ const StockSensei: React.FC = () => {
                       <AlertCircle className="w-5 h-5" />
                     </button>
                   </div>
+                  <KeyframeFilmstrip media={media} />
                 </div>
               )
             ) : (
@@ -125,13 +139,22 @@ const StockSensei: React.FC = () => {
             )}
 
             <button
-              onClick={handleAnalyze}
+              onClick={() => handleAnalyze()}
               disabled={isLoading || (inputType === 'file' && !media) || (inputType === 'text' && !textInput.trim())}
               className="w-full py-4 bg-green-600 hover:bg-green-500 text-white font-black rounded-xl shadow-lg shadow-green-900/20 flex items-center justify-center gap-2 transition-all disabled:opacity-50 tracking-wider"
             >
               {isLoading ? <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : <BarChart3 className="w-5 h-5" />}
               {isLoading ? "正在產出 SEO 套件..." : "產出完整 SEO 套件 (Generate SEO)"}
             </button>
+
+            {isLoading && (
+              <button
+                onClick={() => seoAbortRef.current?.abort()}
+                className="w-full py-2 bg-gray-800 hover:bg-red-600/80 text-gray-300 hover:text-white text-xs font-bold rounded-xl flex items-center justify-center gap-2 transition-colors"
+              >
+                <Square className="w-3 h-3" /> 取消 (Cancel)
+              </button>
+            )}
           </div>
         ) : (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 max-w-5xl mx-auto">
@@ -198,6 +221,21 @@ const StockSensei: React.FC = () => {
                 <ChevronRight className="w-4 h-4 rotate-180" /> 生成另一個項目的 SEO
               </button>
             </div>
+            {result.meta && (
+              <div className="lg:col-span-2 -mt-6 flex items-center justify-center gap-2 text-[10px] font-mono text-gray-700">
+                <span>{result.meta.templateVersion}</span>
+                {result.meta.cached && (
+                  <>
+                    <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-500/10 border border-amber-500/30 text-amber-300">
+                      <Database className="w-2.5 h-2.5" /> CACHED
+                    </span>
+                    <button onClick={() => handleAnalyze(true)} disabled={isLoading} className="underline hover:text-white disabled:opacity-50">
+                      {isLoading ? '重新生成中...' : '強制重新生成 (Force regenerate)'}
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -217,7 +255,7 @@ const StockSensei: React.FC = () => {
               </div>
             </div>
             <button 
-              onClick={fetchInsights}
+              onClick={() => fetchInsights(true)}
               disabled={isInsightLoading}
               className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold rounded-lg border border-gray-700 transition-all active:scale-95 disabled:opacity-50"
             >
@@ -232,6 +270,11 @@ const StockSensei: React.FC = () => {
                 <Brain className="w-12 h-12 text-gray-700" />
                 <p className="text-gray-600 font-mono text-xs uppercase tracking-widest">正在連接全球市場數據庫...</p>
               </div>
+            ) : insightError && !insights ? (
+              <div className="flex items-center gap-3 p-4 bg-red-900/20 border border-red-500/40 rounded-xl text-red-200 text-sm">
+                <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                <p>{insightError}</p>
+              </div>
             ) : insights ? (
               <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                 {/* Left Side: Trends & Interactive Events */}
@@ -334,7 +377,9 @@ const StockSensei: React.FC = () => {
           </div>
           
           <div className="bg-gray-800/30 px-8 py-4 border-t border-gray-800 flex items-center justify-between">
-            <p className="text-[10px] text-gray-600 font-bold uppercase tracking-[0.2em]">Strategy Engine v4.2 • Updated Daily</p>
+            <p className="text-[10px] text-gray-600 font-bold uppercase tracking-[0.2em]">
+              Strategy Engine v4.2 • Updated Daily{insights?.meta && <span className="ml-2 normal-case tracking-normal font-mono">{insights.meta.templateVersion}</span>}
+            </p>
             <div className="flex gap-4">
               <span className="flex items-center gap-1 text-[10px] text-green-500/60 font-bold">● ADOBE STOCK READY</span>
               <span className="flex items-center gap-1 text-[10px] text-indigo-500/60 font-bold">● GETTY IMAGES SYNC</span>
@@ -346,7 +391,14 @@ const StockSensei: React.FC = () => {
       {error && (
         <div className="mt-6 p-4 bg-red-900/20 border border-red-500/50 rounded-xl text-red-200 text-sm flex items-center gap-3 max-w-2xl mx-auto">
           <AlertCircle className="w-5 h-5 flex-shrink-0" />
-          <p>{error}</p>
+          <div>
+            <p>{error}</p>
+            {validationIssues && (
+              <ul className="mt-2 list-disc list-inside text-xs font-mono text-red-300/80 space-y-0.5">
+                {validationIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+              </ul>
+            )}
+          </div>
         </div>
       )}
     </div>
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { LayoutList, Save, RotateCcw, ChevronUp, ChevronDown, Trash2, CopyPlus, Copy, Check } from 'lucide-react';
+import { Storyboard, StoryboardShot } from '../types';
+import {
+  CONTINUITY_FIELDS,
+  duplicateShot,
+  getStoryboardDuration,
+  moveShot,
+  removeShot,
+  storyboardToText,
+  updateShot,
+  withContinuity,
+} from '../services/storyboard';
+
+interface StoryboardEditorProps {
+  storyboard: Storyboard;
+  dirty: boolean;
+  disabled?: boolean;
+  onChange: (storyboard: Storyboard) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+}
+
+const CopyButton: React.FC<{ text: string; label?: string }> = ({ text, label }) => {
+  const [copied, setCopied] = useState(false);
+  return (
+    <button
+      onClick={() => {
+        navigator.clipboard.writeText(text);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      }}
+      className="flex items-center gap-1 p-1 rounded text-gray-500 hover:text-white hover:bg-gray-700 text-[10px] font-bold flex-shrink-0"
+      title="Copy"
+    >
+      {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+      {label}
+    </button>
+  );
+};
+
+const inputClass = 'w-full bg-gray-950 border border-gray-700 rounded-lg px-2 py-1 text-xs text-gray-200 outline-none focus:border-amber-500 disabled:opacity-50';
+
+const StoryboardEditor: React.FC<StoryboardEditorProps> = ({ storyboard, dirty, disabled, onChange, onApply, onDiscard }) => {
+  const { continuity, shots } = storyboard;
+  const setShots = (next: StoryboardShot[]) => onChange({ ...storyboard, shots: next });
+  const patchShot = (id: string, patch: Partial<StoryboardShot>) => setShots(updateShot(shots, id, patch));
+
+  return (
+    <div className="rounded-xl border border-amber-500/30 bg-gray-900 shadow-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-gray-800 bg-gray-800/50 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <LayoutList className="w-4 h-4 text-amber-400" />
+          <h3 className="text-sm font-semibold text-gray-200">
+            分鏡腳本 (Storyboard)
+            <span className="ml-2 font-mono font-normal text-xs text-gray-500">{shots.length} shots · {getStoryboardDuration(storyboard)}s</span>
+          </h3>
+        </div>
+        <div className="flex gap-2">
+          {dirty ? (
+            <>
+              <button
+                onClick={onDiscard}
+                disabled={disabled}
+                className="flex items-center gap-1 px-2 py-1 rounded-md bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-[10px] font-bold transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" /> 放棄
+              </button>
+              <button
+                onClick={onApply}
+                disabled={disabled}
+                className="flex items-center gap-1 px-2 py-1 rounded-md bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white text-[10px] font-bold transition-colors"
+              >
+                <Save className="w-3 h-3" /> 存為新版本
+              </button>
+            </>
+          ) : (
+            <CopyButton text={storyboardToText(storyboard)} label="Copy All" />
+          )}
+        </div>
+      </div>
+
+      {/* Continuity: shared by every shot */}
+      <div className="p-4 border-b border-gray-800">
+        <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mb-2">連戲設定 (Continuity)</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {CONTINUITY_FIELDS.map(({ key, label }) => (
+            <label key={key} className="block">
+              <span className="block text-[10px] text-gray-500 font-bold mb-1">{label}</span>
+              <input
+                value={continuity[key]}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...storyboard, continuity: { ...continuity, [key]: e.target.value } })}
+                className={`${inputClass} font-mono`}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <ol className="p-4 space-y-3">
+        {shots.map((shot, i) => (
+          <li key={shot.id} className="rounded-lg border border-gray-800 bg-black/30 p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-bold text-amber-300">#{i + 1}</span>
+              <input
+                value={shot.shotSize}
+                disabled={disabled}
+                onChange={(e) => patchShot(shot.id, { shotSize: e.target.value })}
+                className={`${inputClass} flex-1`}
+                title="景別 (Shot size)"
+              />
+              <input
+                value={shot.cameraMovement}
+                disabled={disabled}
+                onChange={(e) => patchShot(shot.id, { cameraMovement: e.target.value })}
+                className={`${inputClass} flex-1`}
+                title="運鏡 (Camera movement)"
+              />
+              <input
+                type="number"
+                min={0.5}
+                step={0.5}
+                value={shot.duration}
+                disabled={disabled}
+                onChange={(e) => patchShot(shot.id, { duration: Number(e.target.value) })}
+                className={`${inputClass} w-16 font-mono`}
+                title="秒數 (Duration)"
+              />
+              <div className="flex flex-shrink-0">
+                <button
+                  onClick={() => setShots(moveShot(shots, i, -1))}
+                  disabled={disabled || i === 0}
+                  className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30"
+                  title="上移"
+                >
+                  <ChevronUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => setShots(moveShot(shots, i, 1))}
+                  disabled={disabled || i === shots.length - 1}
+                  className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30"
+                  title="下移"
+                >
+                  <ChevronDown className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => setShots(duplicateShot(shots, shot.id))}
+                  disabled={disabled}
+                  className="p-1 rounded text-gray-400 hover:text-white hover:bg-gray-700 disabled:opacity-30"
+                  title="複製此鏡"
+                >
+                  <CopyPlus className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => setShots(removeShot(shots, shot.id))}
+                  disabled={disabled || shots.length <= 1}
+                  className="p-1 rounded text-gray-400 hover:text-red-400 hover:bg-gray-700 disabled:opacity-30"
+                  title="刪除此鏡"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+            <textarea
+              value={shot.description}
+              disabled={disabled}
+              rows={1}
+              onChange={(e) => patchShot(shot.id, { description: e.target.value })}
+              className={`${inputClass} resize-none`}
+            />
+            {[
+              { key: 'imagePrompt' as const, label: 'Image Prompt', color: 'text-green-400', copy: withContinuity(shot.imagePrompt, continuity) },
+              { key: 'motionPrompt' as const, label: 'Motion Prompt', color: 'text-sky-300', copy: shot.motionPrompt },
+            ].map(({ key, label, color, copy }) => (
+              <div key={key}>
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">{label}</span>
+                  <CopyButton text={copy} />
+                </div>
+                <textarea
+                  value={shot[key]}
+                  disabled={disabled}
+                  rows={2}
+                  onChange={(e) => patchShot(shot.id, { [key]: e.target.value })}
+                  className={`${inputClass} font-mono resize-none ${color}`}
+                />
+              </div>
+            ))}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default StoryboardEditor;
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ImageDown, Save, RotateCcw, Check } from 'lucide-react';
+import {
+  NormalizationFormat,
+  NormalizationSettings,
+  DEFAULT_NORMALIZATION_SETTINGS,
+  LONG_EDGE_OPTIONS,
+  getNormalizationSettings,
+  saveNormalizationSettings,
+} from '../services/imageNormalizer';
+
+const FORMAT_OPTIONS: { value: NormalizationFormat; label: string }[] = [
+  { value: 'image/webp', label: 'WebP' },
+  { value: 'image/jpeg', label: 'JPEG' },
+];
+
+const UploadSettings: React.FC = () => {
+  const [settings, setSettings] = useState<NormalizationSettings>(getNormalizationSettings());
+  const [saved, setSaved] = useState(false);
+
+  const update = (patch: Partial<NormalizationSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const handleSave = () => {
+    saveNormalizationSettings(settings);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 1500);
+  };
+
+  const handleReset = () => {
+    saveNormalizationSettings(DEFAULT_NORMALIZATION_SETTINGS);
+    setSettings(DEFAULT_NORMALIZATION_SETTINGS);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-white flex items-center gap-2">
+            <ImageDown className="w-4 h-4 text-emerald-400" /> 上傳前壓縮 (Upload Normalization)
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            圖片送出前先縮到指定長邊、依 EXIF 轉正並重新編碼；原始全解析度檔案仍保留在本機供比對與匯出。
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs font-bold transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" /> 還原預設
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold transition-colors"
+          >
+            {saved ? <Check className="w-3 h-3" /> : <Save className="w-3 h-3" />} 儲存
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-gray-900/60 border border-gray-800 rounded-xl p-4 space-y-4 text-xs text-gray-300">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => update({ enabled: e.target.checked })}
+            className="accent-emerald-500"
+          />
+          啟用上傳前壓縮
+        </label>
+
+        <div className={`grid grid-cols-1 sm:grid-cols-3 gap-4 ${settings.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+          <label className="block space-y-1">
+            <span className="block text-[10px] text-gray-500 font-bold uppercase tracking-wider">長邊上限 (Long edge)</span>
+            <select
+              value={settings.longEdge}
+              onChange={(e) => update({ longEdge: Number(e.target.value) })}
+              className="w-full bg-gray-950 border border-gray-700 rounded-lg px-2 py-1.5 outline-none focus:border-emerald-500"
+            >
+              {LONG_EDGE_OPTIONS.map(px => <option key={px} value={px}>{px}px</option>)}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span className="block text-[10px] text-gray-500 font-bold uppercase tracking-wider">格式 (Format)</span>
+            <select
+              value={settings.format}
+              onChange={(e) => update({ format: e.target.value as NormalizationFormat })}
+              className="w-full bg-gray-950 border border-gray-700 rounded-lg px-2 py-1.5 outline-none focus:border-emerald-500"
+            >
+              {FORMAT_OPTIONS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span className="flex justify-between text-[10px] text-gray-500 font-bold uppercase tracking-wider">
+              品質 (Quality) <span className="font-mono text-gray-300">{Math.round(settings.quality * 100)}</span>
+            </span>
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.05}
+              value={settings.quality}
+              onChange={(e) => update({ quality: Number(e.target.value) })}
+              className="w-full accent-emerald-500"
+            />
+          </label>
+        </div>
+        <p className="text-[10px] text-gray-500">GIF 與 SVG 不重新編碼；不需縮圖且重新編碼反而更大時會直接送出原檔。新設定只套用於之後上傳的素材。</p>
+      </div>
+    </div>
+  );
+};
+
+export default UploadSettings;
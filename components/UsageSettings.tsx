@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { Coins, Download, Trash2, Save, Check, Plus } from 'lucide-react';
+import {
+  ModelPricing,
+  UsageBudget,
+  UsageRecord,
+  UsageSummary,
+  getModelPricing,
+  saveModelPricing,
+  getUsageBudget,
+  saveUsageBudget,
+  getUsageLog,
+  getSessionSummary,
+  subscribeUsage,
+  clearUsageLog,
+  exportUsageCsv,
+} from '../services/usageTracker';
+import { FEATURE_LABELS } from '../services/modelSettings';
+
+const RECENT_LIMIT = 100;
+
+const UsageSettings: React.FC = () => {
+  const [summary, setSummary] = useState<UsageSummary>(getSessionSummary());
+  const [log, setLog] = useState<UsageRecord[]>(getUsageLog());
+  const [pricing, setPricing] = useState<Record<string, ModelPricing>>(getModelPricing());
+  const [budget, setBudget] = useState<UsageBudget>(getUsageBudget());
+  const [newModel, setNewModel] = useState('');
+  const [savedFlag, setSavedFlag] = useState<string | null>(null);
+
+  useEffect(() => subscribeUsage((next) => {
+    setSummary(next);
+    setLog(getUsageLog());
+  }), []);
+
+  const flash = (key: string) => {
+    setSavedFlag(key);
+    setTimeout(() => setSavedFlag(null), 1500);
+  };
+
+  const updatePrice = (model: string, field: keyof ModelPricing, value: string) => {
+    setPricing(prev => ({ ...prev, [model]: { ...prev[model], [field]: Number(value) || 0 } }));
+  };
+
+  const handleAddModel = () => {
+    const model = newModel.trim();
+    if (!model || pricing[model]) return;
+    setPricing(prev => ({ ...prev, [model]: { inputPerMillion: 0, outputPerMillion: 0 } }));
+    setNewModel('');
+  };
+
+  const handleClearLog = () => {
+    if (!confirm("確定清除所有用量紀錄？")) return;
+    clearUsageLog();
+  };
+
+  const recent = log.slice(-RECENT_LIMIT).reverse();
+
+  return (
+    <div className="space-y-8">
+      {/* Session Summary */}
+      <section className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: 'Session Cost', value: `$${summary.costUsd.toFixed(4)}` },
+          { label: 'Calls', value: summary.calls },
+          { label: 'Input Tokens', value: summary.inputTokens.toLocaleString() },
+          { label: 'Output Tokens', value: summary.outputTokens.toLocaleString() },
+        ].map(card => (
+          <div key={card.label} className="bg-gray-900/60 border border-gray-800 rounded-xl p-4">
+            <p className="text-[10px] text-gray-500 uppercase font-bold tracking-widest">{card.label}</p>
+            <p className="text-lg font-black text-white font-mono mt-1">{card.value}</p>
+          </div>
+        ))}
+      </section>
+
+      {/* Budget */}
+      <section className="space-y-3">
+        <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest">工作階段預算 (Soft Budget)</h3>
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="block">
+            <span className="block text-[10px] text-gray-500 mb-1">預算 (USD，留空為不限)</span>
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={budget.sessionBudgetUsd ?? ''}
+              onChange={(e) => setBudget(prev => ({ ...prev, sessionBudgetUsd: e.target.value === '' ? null : Number(e.target.value) }))}
+              className="w-40 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 outline-none focus:border-indigo-500"
+            />
+          </label>
+          <label className="block">
+            <span className="block text-[10px] text-gray-500 mb-1">警告門檻 (%)</span>
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={budget.warnAtPercent}
+              onChange={(e) => setBudget(prev => ({ ...prev, warnAtPercent: Number(e.target.value) || 80 }))}
+              className="w-28 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 outline-none focus:border-indigo-500"
+            />
+          </label>
+          <button
+            onClick={() => { saveUsageBudget(budget); flash('budget'); }}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold transition-colors"
+          >
+            {savedFlag === 'budget' ? <Check className="w-3 h-3 text-green-400" /> : <Save className="w-3 h-3" />} 儲存預算
+          </button>
+        </div>
+      </section>
+
+      {/* Pricing */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest">模型單價 (USD / 1M tokens)</h3>
+          <button
+            onClick={() => { saveModelPricing(pricing); flash('pricing'); }}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold transition-colors"
+          >
+            {savedFlag === 'pricing' ? <Check className="w-3 h-3 text-green-400" /> : <Save className="w-3 h-3" />} 儲存單價
+          </button>
+        </div>
+        <div className="border border-gray-800 rounded-xl overflow-hidden">
+          <table className="w-full text-xs">
+            <thead className="bg-gray-900 text-gray-500 text-[10px] uppercase tracking-wider">
+              <tr>
+                <th className="text-left px-3 py-2">Model</th>
+                <th className="text-left px-3 py-2">Input</th>
+                <th className="text-left px-3 py-2">Output</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Object.entries(pricing).map(([model, price]) => (
+                <tr key={model} className="border-t border-gray-800">
+                  <td className="px-3 py-2 font-mono text-gray-300">{model}</td>
+                  {(['inputPerMillion', 'outputPerMillion'] as const).map(field => (
+                    <td key={field} className="px-3 py-2">
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={price[field]}
+                        onChange={(e) => updatePrice(model, field, e.target.value)}
+                        className="w-24 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-gray-200 outline-none focus:border-indigo-500"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr className="border-t border-gray-800">
+                <td className="px-3 py-2" colSpan={3}>
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={newModel}
+                      onChange={(e) => setNewModel(e.target.value)}
+                      placeholder="新增模型 ID..."
+                      className="w-64 bg-gray-950 border border-gray-700 rounded px-2 py-1 text-gray-200 font-mono outline-none focus:border-indigo-500"
+                    />
+                    <button onClick={handleAddModel} className="flex items-center gap-1 text-gray-400 hover:text-white">
+                      <Plus className="w-3 h-3" /> Add
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {/* Usage Log */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest flex items-center gap-2">
+            <Coins className="w-4 h-4" /> 用量紀錄 (最近 {Math.min(RECENT_LIMIT, log.length)} / {log.length})
+          </h3>
+          <div className="flex gap-2">
+            <button
+              onClick={exportUsageCsv}
+              disabled={!log.length}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed text-white text-xs font-bold transition-colors"
+            >
+              <Download className="w-3 h-3" /> Export CSV
+            </button>
+            <button
+              onClick={handleClearLog}
+              disabled={!log.length}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-800 hover:bg-red-600/80 disabled:opacity-40 disabled:cursor-not-allowed text-gray-300 hover:text-white text-xs font-bold transition-colors"
+            >
+              <Trash2 className="w-3 h-3" /> 清除紀錄
+            </button>
+          </div>
+        </div>
+        <div className="border border-gray-800 rounded-xl overflow-hidden max-h-80 overflow-y-auto">
+          <table className="w-full text-[11px]">
+            <thead className="bg-gray-900 text-gray-500 text-[10px] uppercase tracking-wider sticky top-0">
+              <tr>
+                <th className="text-left px-3 py-2">Time</th>
+                <th className="text-left px-3 py-2">Feature</th>
+                <th className="text-left px-3 py-2">Model</th>
+                <th className="text-right px-3 py-2">In</th>
+                <th className="text-right px-3 py-2">Out</th>
+                <th className="text-right px-3 py-2">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recent.map(r => (
+                <tr key={r.id} className="border-t border-gray-800 text-gray-400">
+                  <td className="px-3 py-1.5 whitespace-nowrap">{new Date(r.timestamp).toLocaleString()}</td>
+                  <td className="px-3 py-1.5 text-gray-300">
+                    {FEATURE_LABELS[r.feature] ?? r.feature}
+                    {r.cached && <span className="ml-1.5 text-[9px] text-amber-400 font-bold">CACHED</span>}
+                  </td>
+                  <td className="px-3 py-1.5 font-mono">{r.provider === 'gemini' ? r.model : `${r.provider}:${r.model}`}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">{r.inputTokens.toLocaleString()}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">{r.outputTokens.toLocaleString()}</td>
+                  <td className="px-3 py-1.5 text-right font-mono text-gray-200">${r.costUsd.toFixed(5)}</td>
+                </tr>
+              ))}
+              {!recent.length && (
+                <tr><td colSpan={6} className="text-center text-gray-600 py-8">尚無用量紀錄。</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default UsageSettings;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { History, GitBranch, Wand2, MessageSquarePlus, Film, CornerDownRight, GitCompare, Pencil, LayoutList } from 'lucide-react';
+import { DirectorPhase, ResultVersion, VersionOrigin } from '../types';
+import { flattenVersionTree } from '../services/versionTree';
+
+interface VersionHistoryProps {
+  versions: ResultVersion[];
+  activeVersionId?: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  compareIds?: string[]; // 已勾選比較的節點（選滿兩個即顯示差異）
+  onToggleCompare?: (id: string) => void;
+}
+
+const ORIGIN_META: Record<VersionOrigin, { label: string; icon: React.ElementType }> = {
+  'generate': { label: '初次生成', icon: Wand2 },
+  'refine': { label: '修正', icon: MessageSquarePlus },
+  'image-to-video': { label: 'Video Prompt', icon: Film },
+  'storyboard': { label: '分鏡腳本', icon: LayoutList },
+  'edit': { label: '手動編輯', icon: Pencil },
+};
+
+const PHASE_META: Record<DirectorPhase, { tag?: string; color: string }> = {
+  'image-prompt': { color: 'text-indigo-400' },
+  'video-prompt': { tag: 'VIDEO', color: 'text-green-400' },
+  'storyboard': { tag: 'STORYBOARD', color: 'text-amber-400' },
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({ versions, activeVersionId, disabled, onSelect, compareIds = [], onToggleCompare }) => {
+  if (!versions.length) return null;
+
+  const rows = flattenVersionTree(versions);
+  const branchCount = versions.filter(v => versions.filter(c => c.parentId === v.id).length > 1).length;
+
+  return (
+    <div className="rounded-xl border border-gray-700 bg-gray-900/60 p-3 space-y-2">
+      <div className="flex items-center justify-between text-[10px] uppercase tracking-wider font-bold">
+        <span className="flex items-center gap-1.5 text-indigo-300">
+          <History className="w-3 h-3" /> 版本歷史 (History · {versions.length})
+        </span>
+        {branchCount > 0 && (
+          <span className="flex items-center gap-1 text-gray-500">
+            <GitBranch className="w-3 h-3" /> {branchCount} branch{branchCount > 1 ? 'es' : ''}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-1 max-h-72 overflow-y-auto pr-1">
+        {rows.map(({ version, depth }) => {
+          const { label, icon: Icon } = ORIGIN_META[version.origin];
+          const phaseMeta = PHASE_META[version.phase];
+          const isActive = version.id === activeVersionId;
+          const number = versions.indexOf(version) + 1;
+          const isCompared = compareIds.includes(version.id);
+          return (
+            <div key={version.id} className="flex items-start gap-1">
+              <button
+                onClick={() => onSelect(version.id)}
+                disabled={disabled || isActive}
+                style={{ paddingLeft: 8 + depth * 12 }}
+                className={`flex-1 min-w-0 flex items-start gap-2 text-left pr-2 py-1.5 rounded-lg border transition-colors disabled:cursor-default
+                  ${isActive ? 'border-indigo-500 bg-indigo-500/10' : 'border-transparent hover:bg-gray-800 disabled:hover:bg-transparent'}
+                `}
+                title={isActive ? '目前版本' : '還原此版本（之後的修正會從這裡分支）'}
+              >
+                {depth > 0 && <CornerDownRight className="w-3 h-3 mt-0.5 text-gray-600 flex-shrink-0" />}
+                <Icon className={`w-3.5 h-3.5 mt-0.5 flex-shrink-0 ${phaseMeta.color}`} />
+                <div className="min-w-0 flex-1">
+                  <p className="text-xs font-bold text-gray-200 flex items-center gap-1.5">
+                    v{number}
+                    <span className="font-normal text-gray-500">{label}</span>
+                    {phaseMeta.tag && <span className={`text-[9px] ${phaseMeta.color}`}>{phaseMeta.tag}</span>}
+                    {version.result.meta?.cached && <span className="text-[9px] text-amber-300">CACHED</span>}
+                  </p>
+                  {version.feedback && (
+                    <p className="text-[10px] text-gray-400 truncate">「{version.feedback}」</p>
+                  )}
+                  <p className="text-[10px] font-mono text-gray-600 truncate">{version.result.prompt}</p>
+                </div>
+                {version.badResult && (
+                  version.badResult.type === 'video' ? (
+                    <video src={version.badResult.previewUrl} className="w-8 h-8 rounded object-cover border border-red-500/40 flex-shrink-0" muted />
+                  ) : (
+                    <img src={version.badResult.previewUrl} className="w-8 h-8 rounded object-cover border border-red-500/40 flex-shrink-0" alt="Bad result" />
+                  )
+                )}
+                <span className="text-[9px] font-mono text-gray-600 flex-shrink-0 mt-0.5">
+                  {new Date(version.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </button>
+              {onToggleCompare && versions.length > 1 && (
+                <button
+                  onClick={() => onToggleCompare(version.id)}
+                  className={`mt-1 p-1 rounded transition-colors ${isCompared ? 'bg-amber-500/20 text-amber-300' : 'text-gray-600 hover:text-gray-300 hover:bg-gray-800'}`}
+                  title="選兩個版本比較差異 (Compare)"
+                >
+                  <GitCompare className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
@@ -3,6 +3,8 @@ import { MediaFile, GenerationState, DirectorResponse, SavedStyle } from '../typ
 import FileUpload from './FileUpload';
 import ResultDisplay from './ResultDisplay';
 import { generateWallpaperFusion, generateReversePrompt, fileToGenerativePart } from '../services/geminiService';
+import { AIAbortError, AIValidationError } from '../services/aiErrors';
+import { NewVersion, addVersion, selectVersion } from '../services/versionTree';
 import { ArrowRight, Smartphone, Cat, Palette, Sparkles, Save, BookTemplate, Trash2, Plus, UploadCloud } from 'lucide-react';
 
 const WallpaperGenerator: React.FC = () => {
@@ -25,6 +27,9 @@ const WallpaperGenerator: React.FC = () => {
     error: null,
   });
 
+  // In-flight fusion request (for cancel)
+  const abortRef = useRef<AbortController | null>(null);
+
   // Load styles from local storage on mount
   useEffect(() => {
     const saved = localStorage.getItem('wallpaper_styles');
@@ -37,11 +42,13 @@ const WallpaperGenerator: React.FC = () => {
     }
   }, []);
 
-  const handleGenerate = async () => {
+  const handleGenerate = async (forceRefresh = false) => {
     // Validation: Need either an Image OR an Active Saved Style
     if (!styleImage && !activeSavedStyle) return;
 
-    setGenerationState(prev => ({ ...prev, isLoading: true, error: null }));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setGenerationState(prev => ({ ...prev, isLoading: true, error: null, validationIssues: undefined, partialResult: null }));
     try {
       // Logic: If using saved style, pass its analysis string. If using image, pass the file.
       const styleSource = activeSavedStyle ? activeSavedStyle.analysis : styleImage!;
@@ -49,23 +56,38 @@ const WallpaperGenerator: React.FC = () => {
       const response = await generateWallpaperFusion(
         styleSource, 
         subjectImage || undefined,
-        customText
+        customText,
+        {
+          signal: controller.signal,
+          onPartial: (partialResult) => setGenerationState(prev => ({ ...prev, partialResult })),
+          forceRefresh,
+        }
       );
       
-      setGenerationState({
-        isLoading: false,
-        result: response,
-        error: null,
-      });
+      setGenerationState(prev => addVersion(prev, response, { parentId: null, phase: 'image-prompt', origin: 'generate' }));
     } catch (error: any) {
-      setGenerationState({
+      if (error instanceof AIAbortError) {
+        setGenerationState(prev => ({ ...prev, isLoading: false, partialResult: null }));
+        return;
+      }
+      setGenerationState(prev => ({
+        ...prev,
         isLoading: false,
         result: null,
+        activeVersionId: null,
+        partialResult: null,
         error: error.message || "Wallpaper generation failed.",
-      });
+        validationIssues: error instanceof AIValidationError ? error.issues : undefined,
+      }));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   // Helper to create a small persistent thumbnail from a Blob URL
   const createPersistentThumbnail = async (src: string): Promise<string> => {
     return new Promise((resolve) => {
@@ -208,8 +230,12 @@ const WallpaperGenerator: React.FC = () => {
     setStyleImage(null);
   };
 
-  const handleUpdateResult = (newResult: DirectorResponse) => {
-    setGenerationState(prev => ({ ...prev, result: newResult }));
+  const handleAddVersion = (newResult: DirectorResponse, version: NewVersion) => {
+    setGenerationState(prev => addVersion(prev, newResult, version));
+  };
+
+  const handleSelectVersion = (id: string) => {
+    setGenerationState(prev => selectVersion(prev, id));
   };
 
   const handleReset = () => {
@@ -373,7 +399,7 @@ const WallpaperGenerator: React.FC = () => {
       {!generationState.result && (
         <div className="flex justify-center mt-2">
           <button
-            onClick={handleGenerate}
+            onClick={() => handleGenerate()}
             disabled={(!styleImage && !activeSavedStyle) || generationState.isLoading}
             className={`
               px-10 py-4 rounded-xl font-bold text-lg shadow-xl transition-all flex items-center gap-3 w-full md:w-auto justify-center
@@ -423,8 +449,10 @@ const WallpaperGenerator: React.FC = () => {
               additionalMedia={subjectImage}
               state={generationState}
               onGenerate={handleGenerate}
+              onCancel={handleCancel}
               onReset={handleFullReset}
-              onUpdateResult={handleUpdateResult}
+              onAddVersion={handleAddVersion}
+              onSelectVersion={handleSelectVersion}
             />
         </div>
       )}
@@ -0,0 +1,240 @@
+// StockFlow AI Proxy：API 金鑰只存在伺服器端，前端透過 VITE_AI_PROXY_URL 呼叫。
+// 啟動：npm run proxy （讀取 .env.local 的 GEMINI_API_KEY）
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GoogleGenAI } from '@google/genai';
+import {
+  AI_ROUTES,
+  ANALYSIS_LANGUAGES,
+  AVAILABLE_MODELS,
+  DEFAULT_PROMPT_TEMPLATES,
+  DEFAULT_PROMPT_VARIABLES,
+  RESPONSE_SCHEMAS,
+  renderPromptBody,
+} from '../services/aiContracts.mjs';
+
+// --- 設定 ---
+
+const loadEnvFile = (file) => {
+  if (!fs.existsSync(file)) return;
+  for (const line of fs.readFileSync(file, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^\s*([\w.]+)\s*=\s*(.*)\s*$/);
+    if (!match || match[1] in process.env) continue;
+    process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+  }
+};
+
+const rootDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+loadEnvFile(path.join(rootDir, '.env.local'));
+loadEnvFile(path.join(rootDir, '.env'));
+
+const PORT = Number(process.env.PROXY_PORT || 8787);
+const API_KEY = process.env.GEMINI_API_KEY;
+const ALLOWED_ORIGIN = process.env.PROXY_ALLOWED_ORIGIN || 'http://localhost:3000'; // vite dev server
+const RATE_LIMIT = Number(process.env.PROXY_RATE_LIMIT || 30); // 每個 client 每分鐘請求數
+const RATE_WINDOW_MS = 60_000;
+const MAX_BODY_BYTES = 30 * 1024 * 1024; // 關鍵影格 / 圖片以 base64 傳送
+// 只有部署在反向代理之後才信任 X-Forwarded-For，否則 client 可自行偽造來繞過限流
+const TRUST_PROXY = ['1', 'true'].includes(String(process.env.PROXY_TRUST_PROXY).toLowerCase());
+const ALLOWED_MODELS = process.env.PROXY_ALLOWED_MODELS
+  ? process.env.PROXY_ALLOWED_MODELS.split(',').map((model) => model.trim()).filter(Boolean)
+  : AVAILABLE_MODELS;
+const MAX_OUTPUT_TOKENS = 65_536;
+const MAX_VARIABLE_LENGTH = 120;
+
+if (!API_KEY) {
+  console.error('[proxy] GEMINI_API_KEY is not set (.env.local)');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+// 路由與 geminiService 的函式一一對應（定義於 services/aiContracts.mjs）
+const ROUTES = Object.fromEntries(
+  Object.entries(AI_ROUTES).map(([feature, route]) => [route.path, { feature, ...route }])
+);
+
+// --- 每個 client 的固定視窗限流 ---
+
+const buckets = new Map();
+
+const takeToken = (clientId) => {
+  const now = Date.now();
+  let bucket = buckets.get(clientId);
+  if (!bucket || now - bucket.windowStart >= RATE_WINDOW_MS) {
+    bucket = { windowStart: now, count: 0 };
+    buckets.set(clientId, bucket);
+  }
+  bucket.count++;
+  return { allowed: bucket.count <= RATE_LIMIT, retryAfterMs: bucket.windowStart + RATE_WINDOW_MS - now };
+};
+
+// 定期清掉過期的視窗，避免 Map 無限成長
+setInterval(() => {
+  const now = Date.now();
+  for (const [clientId, bucket] of buckets) {
+    if (now - bucket.windowStart >= RATE_WINDOW_MS) buckets.delete(clientId);
+  }
+}, RATE_WINDOW_MS).unref();
+
+// 信任反向代理時取它附加在最後的位址，前面的項目都可能是 client 偽造的
+const getClientId = (req) => {
+  const forwarded = TRUST_PROXY ? String(req.headers['x-forwarded-for'] || '').split(',').pop().trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+// --- HTTP helpers ---
+
+const setCors = (res) => {
+  res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(Object.assign(new Error('Invalid JSON body'), { status: 400 }));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const toTokenUsage = (metadata) =>
+  metadata && {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  };
+
+// --- 請求驗證：system instruction 與 Schema 一律由伺服器依路由產生 ---
+
+const badRequest = (message) => Object.assign(new Error(message), { status: 400 });
+
+const LANGUAGE_NAMES = Object.values(ANALYSIS_LANGUAGES).map((language) => language.promptName);
+
+const isValidPart = (part) =>
+  !!part && typeof part === 'object' && (
+    (typeof part.text === 'string' && !part.inlineData) ||
+    (part.text === undefined && typeof part.inlineData?.data === 'string' && /^(image|video)\//.test(part.inlineData.mimeType))
+  );
+
+const isValidContents = (contents) =>
+  typeof contents === 'string' ||
+  (!!contents && Array.isArray(contents.parts) && contents.parts.length > 0 && contents.parts.every(isValidPart));
+
+// 團隊可編輯的變數只接受單行短字串，避免藉此改寫整段系統提示詞
+const toPromptVariables = (input) => {
+  const variables = input && typeof input === 'object' ? input : {};
+  const text = (value, fallback) =>
+    typeof value === 'string' && value.trim() && value.length <= MAX_VARIABLE_LENGTH && !/[\r\n{}]/.test(value) ? value.trim() : fallback;
+  return {
+    date: /^\d{4}-\d{2}-\d{2}$/.test(variables.date) ? variables.date : new Date().toISOString().split('T')[0],
+    language: LANGUAGE_NAMES.includes(variables.language) ? variables.language : LANGUAGE_NAMES[0],
+    keywordCount: text(variables.keywordCount, DEFAULT_PROMPT_VARIABLES.keywordCount),
+    platform: text(variables.platform, DEFAULT_PROMPT_VARIABLES.platform),
+  };
+};
+
+const toGenerateParams = (route, body, signal) => {
+  const { model, contents, schemaId, promptVariables, temperature, maxOutputTokens } = body;
+  if (!ALLOWED_MODELS.includes(model)) throw badRequest(`Model not allowed: ${model}`);
+  if (!route.schemas.includes(schemaId)) throw badRequest(`Schema not allowed for ${route.feature}: ${schemaId}`);
+  if (!isValidContents(contents)) throw badRequest('Invalid contents');
+  if (temperature !== undefined && !(typeof temperature === 'number' && temperature >= 0 && temperature <= 2)) {
+    throw badRequest('temperature must be between 0 and 2');
+  }
+  if (maxOutputTokens !== undefined && !(Number.isInteger(maxOutputTokens) && maxOutputTokens > 0 && maxOutputTokens <= MAX_OUTPUT_TOKENS)) {
+    throw badRequest(`maxOutputTokens must be between 1 and ${MAX_OUTPUT_TOKENS}`);
+  }
+  return {
+    model,
+    contents,
+    config: {
+      systemInstruction: renderPromptBody(DEFAULT_PROMPT_TEMPLATES[route.template].body, toPromptVariables(promptVariables)),
+      responseMimeType: 'application/json',
+      responseSchema: RESPONSE_SCHEMAS[schemaId],
+      temperature,
+      maxOutputTokens,
+      abortSignal: signal,
+    },
+  };
+};
+
+// --- Server ---
+
+const server = http.createServer(async (req, res) => {
+  setCors(res);
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (req.method === 'GET' && url.pathname === '/api/health') {
+    return sendJson(res, 200, { ok: true, features: Object.keys(AI_ROUTES), models: ALLOWED_MODELS });
+  }
+
+  const stream = url.pathname.endsWith('/stream');
+  const route = ROUTES[stream ? url.pathname.slice(0, -'/stream'.length) : url.pathname];
+  if (!route) return sendJson(res, 404, { error: `Unknown route: ${url.pathname}` });
+  if (req.method !== 'POST') return sendJson(res, 405, { error: 'Method not allowed' });
+
+  const { allowed, retryAfterMs } = takeToken(getClientId(req));
+  if (!allowed) {
+    res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+    return sendJson(res, 429, { error: `Rate limit exceeded (${RATE_LIMIT} requests / minute)` });
+  }
+
+  // 前端取消時一併中斷上游呼叫
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const params = toGenerateParams(route, await readJsonBody(req), controller.signal);
+
+    if (!stream) {
+      const response = await ai.models.generateContent(params);
+      return sendJson(res, 200, { text: response.text || '', usage: toTokenUsage(response.usageMetadata) });
+    }
+
+    // NDJSON：每行一個 { text, usage? }，錯誤以 { error } 結尾
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8' });
+    try {
+      for await (const chunk of await ai.models.generateContentStream(params)) {
+        res.write(JSON.stringify({ text: chunk.text || '', usage: toTokenUsage(chunk.usageMetadata) }) + '\n');
+      }
+    } catch (error) {
+      res.write(JSON.stringify({ error: error?.message || 'Upstream error', status: error?.status }) + '\n');
+    }
+    res.end();
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    const status = typeof error?.status === 'number' ? error.status : 502;
+    console.error(`[proxy] ${route.feature} failed (${status}):`, error?.message);
+    sendJson(res, status, { error: error?.message || 'Upstream error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`[proxy] StockFlow AI proxy listening on http://localhost:${PORT} (rate limit ${RATE_LIMIT}/min per client)`);
+});
@@ -0,0 +1,378 @@
+// --- AI 呼叫契約（前端與 server/proxy.mjs 共用）---
+// 每個功能的路由、預設系統提示詞模板與回應 Schema 集中於此。
+// Proxy 依路由自行組出 system instruction 與 Schema，只接受這裡列出的模型，不採用前端送來的內容。
+import { Type } from '@google/genai';
+
+/** @typedef {import('@google/genai').Schema} Schema */
+/** @typedef {import('../types').AIFeature} AIFeature */
+/** @typedef {import('../types').AnalysisLanguage} AnalysisLanguage */
+/** @typedef {import('./promptTemplates').PromptTemplateId} PromptTemplateId */
+/** @typedef {import('./promptTemplates').PromptTemplate} PromptTemplate */
+/** @typedef {import('./promptTemplates').EditablePromptVariables} EditablePromptVariables */
+
+export const AVAILABLE_MODELS = [
+  'gemini-3-pro-preview',
+  'gemini-2.5-pro',
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite',
+];
+
+// --- 提示詞模板 ---
+
+// 分析文字 (analysis) 的輸出語言；提示詞 (prompt) 一律維持英文
+/** @type {Record<AnalysisLanguage, { label: string; promptName: string }>} */
+export const ANALYSIS_LANGUAGES = {
+  'zh-TW': { label: '繁中', promptName: '繁體中文' },
+  'zh-CN': { label: '简中', promptName: '简体中文' },
+  'en': { label: 'EN', promptName: 'English' },
+  'ja': { label: '日本語', promptName: '日本語' },
+};
+
+/** @type {EditablePromptVariables} */
+export const DEFAULT_PROMPT_VARIABLES = {
+  keywordCount: '35 到 50',
+  platform: 'Adobe Stock, Shutterstock, Getty Images',
+};
+
+/** @type {Record<PromptTemplateId, PromptTemplate>} */
+export const DEFAULT_PROMPT_TEMPLATES = {
+  'market-brain': {
+    id: 'market-brain',
+    name: 'StockFlow 智慧大腦 (Market Brain)',
+    version: 1,
+    body: `你現在是「StockFlow 智慧大腦」，全球頂尖圖庫市場分析官。
+當前日期是：{{date}}。
+你的任務是分析當前國際圖庫（{{platform}}）的搜尋趨勢、季節性需求與高頻關鍵字。
+
+輸出要求（{{language}}）：
+1. 【熱門趨勢】：列出 3 個當前全球最熱賣的視覺主題。
+2. 【即將到來的節慶】：列出 3 個最具商業潛力的節慶，並為每個節慶提供 5-8 個對應的高頻英文關鍵字。
+3. 【高頻關鍵字】：提供 10 個與目前季節或趨勢相關的通用英文高頻搜尋詞。
+4. 【商業建議】：給予創作者一段精確的拍攝或生成建議。`,
+  },
+  'stocksensei': {
+    id: 'stocksensei',
+    name: 'StockSensei X (SEO)',
+    version: 1,
+    body: `你現在是「StockSensei X」，全球頂尖圖庫 SEO 專家。
+你的唯一任務是針對使用者提供的圖片、影片或文字描述，生成專業的英文 SEO 套件，目標平台為 {{platform}}。
+
+輸出要求：
+1. 【SEO Titles】: 提供 2 個精準標題。
+2. 【Best Title】: 選出最符合圖庫搜尋權重的一個標題。
+3. 【Keywords】: 提供 {{keywordCount}} 個英文關鍵字，以逗號分隔。`,
+  },
+  'visual-director': {
+    id: 'visual-director',
+    name: '視覺導演 (Visual Director)',
+    version: 1,
+    body: `你是一位頂尖的 AI 視覺導演。請以「{{language}}」提供專業的視覺構圖、光影與風格分析 (analysis)，並以「英文」提供對應的 AI 繪圖提示詞 (prompt)。`,
+  },
+  'refine-director': {
+    id: 'refine-director',
+    name: '視覺修正導演 (Refine Director)',
+    version: 1,
+    body: `你是一位專業的視覺修正導演。請以「{{language}}」解釋修正策略 (analysis)，並以「英文」產出優化後的提示詞 (prompt)。`,
+  },
+  'motion-director': {
+    id: 'motion-director',
+    name: '動態攝影導演 (Motion Director)',
+    version: 1,
+    body: `你是一位 AI 動態攝影導演。請以「{{language}}」分析運鏡、動作與節奏策略 (analysis)，並以「英文」產出對應的動態提示詞 (prompt)。`,
+  },
+  'motion-refine-director': {
+    id: 'motion-refine-director',
+    name: '動態修正導演 (Motion Refine Director)',
+    version: 1,
+    body: `你是一位專業的動態修正式導演。請以「{{language}}」解釋運鏡修正策略 (analysis)，並以「英文」產出優化後的動態提示詞 (prompt)。`,
+  },
+  'shot-director': {
+    id: 'shot-director',
+    name: '分鏡拆解導演 (Shot Breakdown Director)',
+    version: 1,
+    body: `你是一位專業的影片分鏡師。請逐鏡頭拆解這段影片：為每個鏡頭標出開始與結束秒數 (start / end)、景別 (shotSize)、運鏡 (cameraMovement)、鏡頭焦段 (lens) 與接到下一鏡的轉場 (transition)。
+以「{{language}}」撰寫整體剪輯節奏分析 (analysis) 與每個鏡頭的畫面描述 (description)；
+以「英文」為每個鏡頭產出靜態畫面提示詞 (imagePrompt) 與動態提示詞 (motionPrompt)，並給一個代表整體風格的提示詞 (prompt)。`,
+  },
+  'match-judge': {
+    id: 'match-judge',
+    name: '生成圖評審 (Match Judge)',
+    version: 1,
+    body: `你是一位嚴格的視覺評審。第一份素材是原始參考，第二份是使用者依提示詞生成的圖片。
+請就構圖 (composition)、光影 (lighting)、色彩 (palette)、主體還原度 (subject)、風格 (style) 五個面向，各給 0-100 的相似度分數，並計算整體分數 (overall)。
+以「{{language}}」撰寫整體評語 (summary) 與每個面向的差異說明 (note)；以「英文」為每個面向寫一句可直接加進提示詞的修正建議 (fix)。分數要客觀，不要一律給高分。`,
+  },
+  'storyboard-director': {
+    id: 'storyboard-director',
+    name: '分鏡腳本導演 (Storyboard Director)',
+    version: 1,
+    body: `你是一位廣告與素材短片的分鏡導演。請把已核准的靜態畫面與動態提示詞延伸為指定鏡數的連續短片分鏡。
+先定義所有鏡頭共用的連戲設定 (continuity)：角色外觀 (character)、服裝 (wardrobe)、光線 (lighting)、時間 (timeOfDay)，以「英文」撰寫，每一鏡都必須遵守。
+以「{{language}}」說明整段的敘事與剪輯節奏 (analysis) 及每鏡的畫面描述 (description)；
+以「英文」為每鏡產出秒數 (duration)、景別 (shotSize)、運鏡 (cameraMovement)、靜態畫面提示詞 (imagePrompt) 與動態提示詞 (motionPrompt)，並給一個整段共用的風格提示詞 (prompt)。`,
+  },
+  'wallpaper-director': {
+    id: 'wallpaper-director',
+    name: '桌布藝術總監 (Wallpaper Art Director)',
+    version: 1,
+    body: `你是一位手機桌布視覺藝術總監。請以「{{language}}」說明風格融合邏輯 (analysis)，並以「英文」產出最終生成的提示詞 (prompt)。`,
+  },
+};
+
+/**
+ * 代入 {{name}} 變數；未知的變數原樣保留
+ * @param {string} body
+ * @param {Record<string, string>} variables
+ */
+export const renderPromptBody = (body, variables) =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => (name in variables ? variables[name] : match));
+
+// --- 回應 Schema ---
+
+/** @type {Schema} */
+const stockSenseiSchema = {
+  type: Type.OBJECT,
+  properties: {
+    seo: {
+      type: Type.OBJECT,
+      properties: {
+        titles: { 
+          type: Type.ARRAY, 
+          items: { type: Type.STRING },
+          minItems: "1",
+          description: "Two professional stock titles in English."
+        },
+        bestTitle: { 
+          type: Type.STRING,
+          description: "The most commercially viable title for stock platforms."
+        },
+        keywords: { 
+          type: Type.STRING,
+          description: "35 to 50 relevant English keywords separated by commas."
+        },
+      },
+      required: ["titles", "bestTitle", "keywords"],
+    },
+  },
+  required: ["seo"],
+};
+
+/** @type {Schema} */
+const marketInsightSchema = {
+  type: Type.OBJECT,
+  properties: {
+    trendingThemes: {
+      type: Type.ARRAY,
+      minItems: "1",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          description: { type: Type.STRING },
+        },
+        required: ["title", "description"],
+      },
+    },
+    upcomingEvents: {
+      type: Type.ARRAY,
+      minItems: "1",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["name", "keywords"],
+      },
+    },
+    hotKeywords: {
+      type: Type.ARRAY,
+      minItems: "1",
+      items: { type: Type.STRING },
+    },
+    commercialAdvice: { type: Type.STRING },
+  },
+  required: ["trendingThemes", "upcomingEvents", "hotKeywords", "commercialAdvice"],
+};
+
+/** @type {Schema} */
+const directorSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    analysis: { type: Type.STRING },
+    prompt: { type: Type.STRING },
+  },
+  required: ["analysis", "prompt"],
+};
+
+// 靜態圖像的導演回應另外要求結構化拆解 (facets)，prompt 須由這些欄位組成
+/** @type {Schema} */
+const facetsSchema = {
+  type: Type.OBJECT,
+  properties: {
+    subject: { type: Type.STRING, description: "Main subject and action" },
+    composition: { type: Type.STRING, description: "Framing, shot size and layout" },
+    camera: { type: Type.STRING, description: "Camera, lens and depth of field" },
+    lighting: { type: Type.STRING, description: "Light direction, quality and time of day" },
+    colorPalette: { type: Type.STRING, description: "Dominant colors and grading" },
+    style: { type: Type.STRING, description: "Medium, art style or film stock" },
+    mood: { type: Type.STRING, description: "Mood and atmosphere" },
+    negative: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Elements that must not appear" },
+  },
+  required: ["subject", "composition", "camera", "lighting", "colorPalette", "style", "mood", "negative"],
+};
+
+/** @type {Schema} */
+const facetedDirectorSchema = {
+  ...directorSchema,
+  properties: { ...directorSchema.properties, facets: facetsSchema },
+  required: ["analysis", "prompt", "facets"],
+};
+
+// 多張參考圖 (moodboard) 時，另外說明每張參考被採用的元素
+/** @type {Schema} */
+const multiReferenceSchema = {
+  ...facetedDirectorSchema,
+  properties: {
+    ...facetedDirectorSchema.properties,
+    referenceNotes: {
+      type: Type.ARRAY,
+      minItems: "1",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, description: "Reference number, starting at 1" },
+          contribution: { type: Type.STRING, description: "What was taken from this reference" },
+        },
+        required: ["index", "contribution"],
+      },
+    },
+  },
+  required: ["analysis", "prompt", "facets", "referenceNotes"],
+};
+
+// 影片逐鏡頭拆解
+/** @type {Schema} */
+const shotListSchema = {
+  type: Type.OBJECT,
+  properties: {
+    analysis: { type: Type.STRING },
+    prompt: { type: Type.STRING },
+    shots: {
+      type: Type.ARRAY,
+      minItems: "1",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: "Shot start time in seconds" },
+          end: { type: Type.NUMBER, description: "Shot end time in seconds" },
+          shotSize: { type: Type.STRING },
+          cameraMovement: { type: Type.STRING },
+          lens: { type: Type.STRING },
+          transition: { type: Type.STRING, description: "Transition into the next shot" },
+          description: { type: Type.STRING },
+          imagePrompt: { type: Type.STRING },
+          motionPrompt: { type: Type.STRING },
+        },
+        required: ["start", "end", "shotSize", "cameraMovement", "lens", "transition", "description", "imagePrompt", "motionPrompt"],
+      },
+    },
+  },
+  required: ["analysis", "prompt", "shots"],
+};
+
+/** @type {Schema} */
+const matchScoreSchema = {
+  type: Type.OBJECT,
+  properties: {
+    overall: { type: Type.INTEGER, minimum: 0, maximum: 100 },
+    summary: { type: Type.STRING },
+    scores: {
+      type: Type.ARRAY,
+      minItems: "5",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          dimension: { type: Type.STRING, format: "enum", enum: ["composition", "lighting", "palette", "subject", "style"] },
+          score: { type: Type.INTEGER, minimum: 0, maximum: 100 },
+          note: { type: Type.STRING, description: "How the generated image differs from the reference" },
+          fix: { type: Type.STRING, description: "English prompt fragment that would close the gap" },
+        },
+        required: ["dimension", "score", "note", "fix"],
+      },
+    },
+  },
+  required: ["overall", "summary", "scores"],
+};
+
+/** @type {Schema} */
+const storyboardSchema = {
+  type: Type.OBJECT,
+  properties: {
+    analysis: { type: Type.STRING },
+    prompt: { type: Type.STRING },
+    storyboard: {
+      type: Type.OBJECT,
+      properties: {
+        continuity: {
+          type: Type.OBJECT,
+          properties: {
+            character: { type: Type.STRING, description: "Character appearance shared by every shot" },
+            wardrobe: { type: Type.STRING },
+            lighting: { type: Type.STRING },
+            timeOfDay: { type: Type.STRING },
+          },
+          required: ["character", "wardrobe", "lighting", "timeOfDay"],
+        },
+        shots: {
+          type: Type.ARRAY,
+          minItems: "2",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              duration: { type: Type.NUMBER, description: "Shot length in seconds" },
+              shotSize: { type: Type.STRING },
+              cameraMovement: { type: Type.STRING },
+              description: { type: Type.STRING },
+              imagePrompt: { type: Type.STRING },
+              motionPrompt: { type: Type.STRING },
+            },
+            required: ["duration", "shotSize", "cameraMovement", "description", "imagePrompt", "motionPrompt"],
+          },
+        },
+      },
+      required: ["continuity", "shots"],
+    },
+  },
+  required: ["analysis", "prompt", "storyboard"],
+};
+
+export const RESPONSE_SCHEMAS = {
+  'stock-sensei': stockSenseiSchema,
+  'market-insight': marketInsightSchema,
+  'director': directorSchema,
+  'faceted-director': facetedDirectorSchema,
+  'multi-reference': multiReferenceSchema,
+  'shot-list': shotListSchema,
+  'match-score': matchScoreSchema,
+  'storyboard': storyboardSchema,
+};
+
+/** @typedef {keyof typeof RESPONSE_SCHEMAS} ResponseSchemaId */
+
+// --- 路由：每個功能對應的 Proxy 路徑、模板與可用的 Schema ---
+
+/** @type {Record<AIFeature, { path: string; template: PromptTemplateId; schemas: ResponseSchemaId[] }>} */
+export const AI_ROUTES = {
+  'director-image': { path: '/api/director/analyze', template: 'visual-director', schemas: ['faceted-director', 'multi-reference'] },   // generateReversePrompt
+  'director-refine': { path: '/api/director/refine', template: 'refine-director', schemas: ['faceted-director', 'multi-reference'] },  // refinePromptWithFeedback
+  'video-prompt': { path: '/api/director/video', template: 'motion-director', schemas: ['director'] },                                // generateVideoPromptFromImage
+  'video-refine': { path: '/api/director/video-refine', template: 'motion-refine-director', schemas: ['director'] },                  // refineVideoPromptWithFeedback
+  'shot-list': { path: '/api/director/shots', template: 'shot-director', schemas: ['shot-list'] },                                    // generateShotBreakdown
+  'match-score': { path: '/api/director/match', template: 'match-judge', schemas: ['match-score'] },                                  // scoreGeneratedMatch
+  'storyboard': { path: '/api/director/storyboard', template: 'storyboard-director', schemas: ['storyboard'] },                       // generateStoryboard
+  'seo': { path: '/api/seo', template: 'stocksensei', schemas: ['stock-sensei'] },                                                     // generateStockSenseiAnalysis
+  'market-insights': { path: '/api/insights', template: 'market-brain', schemas: ['market-insight'] },                                 // getMarketInsights
+  'wallpaper': { path: '/api/wallpaper', template: 'wallpaper-director', schemas: ['faceted-director'] },                               // generateWallpaperFusion
+};
@@ -0,0 +1,46 @@
+import { AIFeature } from "../types";
+
+// AI 回應未通過 Schema 驗證（已用盡修復重試次數）
+export class AIValidationError extends Error {
+  readonly feature: AIFeature;
+  readonly issues: string[];
+  readonly rawText: string;
+
+  constructor(feature: AIFeature, issues: string[], rawText: string) {
+    super(`AI 回應格式不正確 (${feature})：${issues.slice(0, 3).join('；')}${issues.length > 3 ? '…' : ''}`);
+    this.name = 'AIValidationError';
+    this.feature = feature;
+    this.issues = issues;
+    this.rawText = rawText;
+  }
+}
+
+// 使用者主動取消
+export class AIAbortError extends Error {
+  constructor() {
+    super('已取消 (Cancelled)');
+    this.name = 'AIAbortError';
+  }
+}
+
+// 超過呼叫時間上限
+export class AITimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`AI 回應逾時 (超過 ${Math.round(timeoutMs / 1000)} 秒)，請稍後再試。`);
+    this.name = 'AITimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// Proxy 伺服器回傳錯誤（含 HTTP 狀態，供重試判斷）
+export class AIProxyError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(status === 429 ? `請求過於頻繁，請稍後再試 (${message})` : message);
+    this.name = 'AIProxyError';
+    this.status = status;
+  }
+}
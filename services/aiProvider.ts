@@ -0,0 +1,86 @@
+import { Schema } from "@google/genai";
+import { AIFeature, AIProviderId } from "../types";
+import { geminiProvider } from "./geminiProvider";
+import { fixtureProvider } from "./fixtureProvider";
+import { proxyProvider, getProxyBaseUrl } from "./proxyProvider";
+import type { TokenUsage } from "./usageTracker";
+import type { PromptVariables } from "./promptTemplates";
+import type { ResponseSchemaId } from "./aiContracts.mjs";
+
+// --- Provider 介面：所有 geminiService 的呼叫都經由這一層 ---
+
+export interface AIPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+}
+
+export interface AIRequest {
+  feature: AIFeature;
+  model: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  contents: string | { parts: AIPart[] };
+  systemInstruction: string;
+  responseSchema: Schema;
+  // Proxy 不接受前端的 systemInstruction / responseSchema，改送 Schema id 與模板變數由伺服器組出
+  schemaId: ResponseSchemaId;
+  promptVariables: PromptVariables;
+  templateVersion?: string; // 僅供快取 key 使用，provider 不需理會
+  signal?: AbortSignal;
+}
+
+export interface AIResponse {
+  text: string;
+  usage?: TokenUsage;
+}
+
+// 串流片段；usage 通常只出現在最後一段
+export interface AIStreamChunk {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  generateContent: (request: AIRequest) => Promise<AIResponse>;
+  // 選用：逐段回傳文字（JSON 片段），不支援的 provider 會退回一次性呼叫
+  generateContentStream?: (request: AIRequest) => AsyncGenerator<AIStreamChunk>;
+}
+
+const PROVIDER_STORAGE_KEY = 'ai_provider';
+
+export const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  proxy: proxyProvider,
+  fixture: fixtureProvider,
+};
+
+// 只列出有設定的 provider：直連需要 VITE_GEMINI_API_KEY，proxy 需要 VITE_AI_PROXY_URL
+export const isProviderAvailable = (id: AIProviderId): boolean => {
+  if (id === 'gemini') return !!import.meta.env.VITE_GEMINI_API_KEY;
+  if (id === 'proxy') return !!getProxyBaseUrl();
+  return true;
+};
+
+export const getAvailableProviders = (): AIProvider[] =>
+  Object.values(AI_PROVIDERS).filter(provider => isProviderAvailable(provider.id));
+
+const isProviderId = (value: unknown): value is AIProviderId =>
+  typeof value === 'string' && value in AI_PROVIDERS && isProviderAvailable(value as AIProviderId);
+
+export const getActiveProviderId = (): AIProviderId => {
+  const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  if (isProviderId(stored)) return stored;
+  const fromEnv = import.meta.env.VITE_AI_PROVIDER;
+  if (isProviderId(fromEnv)) return fromEnv;
+  // 有設定 Proxy 時優先走 Proxy，避免金鑰打包進前端
+  if (isProviderAvailable('proxy')) return 'proxy';
+  return isProviderAvailable('gemini') ? 'gemini' : 'fixture';
+};
+
+export const setActiveProviderId = (id: AIProviderId) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
+
+export const getActiveProvider = (): AIProvider => AI_PROVIDERS[getActiveProviderId()];
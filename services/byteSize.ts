@@ -0,0 +1,3 @@
+// 檔案 / 儲存空間大小的顯示格式，工作階段清單、快取設定與上傳資訊共用
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
@@ -0,0 +1,423 @@
+import { CameraMetadata } from "../types";
+
+// --- EXIF / XMP 拍攝資訊 ---
+// 直接解析 JPEG (APP1)、PNG (eXIf / iTXt) 與 WebP (EXIF / XMP chunk)，不依賴外部套件。
+// 鏡頭與曝光參數會當作事實交給導演模型；GPS 只有在使用者選擇保留時才會寫入。
+
+export interface CameraMetadataOptions {
+  keepGps?: boolean;
+}
+
+const JPEG_SCAN_BYTES = 512 * 1024;
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+// TIFF 型別 → 每個值的位元組數
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  focalLength35mm: 0xa405,
+  lensMake: 0xa433,
+  lensModel: 0xa434,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+};
+
+type TagValue = string | number | number[];
+
+const ascii = (view: DataView, offset: number, length: number) => {
+  let text = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) text += String.fromCharCode(view.getUint8(offset + i));
+  return text;
+};
+
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  if (tiff + offset + 2 > view.byteLength) return tags;
+  const count = view.getUint16(tiff + offset, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = tiff + offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const dataOffset = size * n > 4 ? tiff + view.getUint32(entry + 8, little) : entry + 8;
+    if (dataOffset + size * n > view.byteLength) continue;
+
+    if (type === 2) {
+      tags.set(tag, ascii(view, dataOffset, n).replace(/\0+$/, '').trim());
+      continue;
+    }
+    const values: number[] = [];
+    for (let j = 0; j < n; j++) {
+      const at = dataOffset + j * size;
+      if (type === 5 || type === 10) {
+        const num = type === 5 ? view.getUint32(at, little) : view.getInt32(at, little);
+        const den = type === 5 ? view.getUint32(at + 4, little) : view.getInt32(at + 4, little);
+        values.push(den ? num / den : 0);
+      } else if (type === 3) values.push(view.getUint16(at, little));
+      else if (type === 4) values.push(view.getUint32(at, little));
+      else if (type === 9) values.push(view.getInt32(at, little));
+      else values.push(view.getUint8(at));
+    }
+    tags.set(tag, values.length === 1 ? values[0] : values);
+  }
+  return tags;
+};
+
+const num = (value: TagValue | undefined) =>
+  typeof value === 'number' ? value : Array.isArray(value) ? value[0] : undefined;
+
+const str = (value: TagValue | undefined) => (typeof value === 'string' && value ? value : undefined);
+
+// EXIF 日期 "2024:05:01 18:22:10" → "2024-05-01T18:22:10"
+const normalizeDate = (value?: string) => {
+  const match = value?.match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):?(\d{2})?/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6] ?? '00'}` : undefined;
+};
+
+const toDegrees = (value: TagValue | undefined, ref: TagValue | undefined) => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+const parseTiff = (view: DataView, tiff: number): CameraMetadata => {
+  const order = ascii(view, tiff, 2);
+  if (order !== 'II' && order !== 'MM') return {};
+  const little = order === 'II';
+  const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+  const exifOffset = num(ifd0.get(TAGS.exifIfd));
+  const gpsOffset = num(ifd0.get(TAGS.gpsIfd));
+  const exif = exifOffset ? readIfd(view, tiff, exifOffset, little) : new Map<number, TagValue>();
+  const gps = gpsOffset ? readIfd(view, tiff, gpsOffset, little) : new Map<number, TagValue>();
+
+  const latitude = toDegrees(gps.get(TAGS.gpsLatitude), gps.get(TAGS.gpsLatitudeRef));
+  const longitude = toDegrees(gps.get(TAGS.gpsLongitude), gps.get(TAGS.gpsLongitudeRef));
+  const lensMake = str(exif.get(TAGS.lensMake));
+  const lensModel = str(exif.get(TAGS.lensModel));
+
+  return {
+    make: str(ifd0.get(TAGS.make)),
+    model: str(ifd0.get(TAGS.model)),
+    lens: lensModel && lensMake && !lensModel.startsWith(lensMake) ? `${lensMake} ${lensModel}` : lensModel,
+    focalLength: num(exif.get(TAGS.focalLength)) || undefined,
+    focalLength35mm: num(exif.get(TAGS.focalLength35mm)) || undefined,
+    aperture: num(exif.get(TAGS.fNumber)) || undefined,
+    exposureTime: num(exif.get(TAGS.exposureTime)) || undefined,
+    iso: num(exif.get(TAGS.iso)) || undefined,
+    capturedAt: normalizeDate(str(exif.get(TAGS.dateTimeOriginal)) ?? str(ifd0.get(TAGS.dateTime))),
+    orientation: num(ifd0.get(TAGS.orientation)),
+    gps: latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined,
+  };
+};
+
+// --- XMP（Lightroom 匯出等常只有 XMP）---
+
+const xmpValue = (xmp: string, name: string) => {
+  const attribute = xmp.match(new RegExp(`${name}="([^"]*)"`));
+  if (attribute) return attribute[1];
+  const element = xmp.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`));
+  return element?.[1].replace(/<[^>]+>/g, ' ').trim() || undefined;
+};
+
+const xmpNumber = (value?: string) => {
+  if (!value) return undefined;
+  const [a, b] = value.split('/').map(Number);
+  const result = b ? a / b : a;
+  return Number.isFinite(result) && result > 0 ? result : undefined;
+};
+
+const parseXmp = (xmp: string): CameraMetadata => ({
+  make: xmpValue(xmp, 'tiff:Make'),
+  model: xmpValue(xmp, 'tiff:Model'),
+  lens: xmpValue(xmp, 'aux:Lens') ?? xmpValue(xmp, 'exifEX:LensModel'),
+  focalLength: xmpNumber(xmpValue(xmp, 'exif:FocalLength')),
+  focalLength35mm: xmpNumber(xmpValue(xmp, 'exif:FocalLengthIn35mmFilm')),
+  aperture: xmpNumber(xmpValue(xmp, 'exif:FNumber')),
+  exposureTime: xmpNumber(xmpValue(xmp, 'exif:ExposureTime')),
+  iso: xmpNumber(xmpValue(xmp, 'exif:ISOSpeedRatings')?.split(/\s+/)[0] ?? xmpValue(xmp, 'exifEX:PhotographicSensitivity')),
+  capturedAt: normalizeDate(xmpValue(xmp, 'exif:DateTimeOriginal') ?? xmpValue(xmp, 'xmp:CreateDate') ?? xmpValue(xmp, 'photoshop:DateCreated')),
+});
+
+// --- 容器格式 ---
+
+interface RawMetadata {
+  tiff?: { view: DataView; offset: number };
+  xmp?: string;
+}
+
+const decodeText = (view: DataView, offset: number, length: number) =>
+  new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + offset, Math.max(0, Math.min(length, view.byteLength - offset))));
+
+const scanJpeg = (view: DataView): RawMetadata => {
+  const raw: RawMetadata = {};
+  let offset = 2;
+  while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+    const marker = view.getUint8(offset + 1);
+    if (marker === 0xda || marker === 0xd9) break; // 影像資料開始，後面不會再有 metadata
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xe1) {
+      if (ascii(view, offset + 4, EXIF_HEADER.length) === EXIF_HEADER) {
+        raw.tiff = { view, offset: offset + 4 + EXIF_HEADER.length };
+      } else if (ascii(view, offset + 4, XMP_HEADER.length) === XMP_HEADER) {
+        raw.xmp = decodeText(view, offset + 4 + XMP_HEADER.length, length - 2 - XMP_HEADER.length);
+      }
+    }
+    offset += 2 + length;
+  }
+  return raw;
+};
+
+const scanPng = (view: DataView): RawMetadata => {
+  const raw: RawMetadata = {};
+  let offset = 8;
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = ascii(view, offset + 4, 4);
+    const data = offset + 8;
+    if (type === 'eXIf') raw.tiff = { view, offset: data };
+    if (type === 'iTXt' && ascii(view, data, PNG_XMP_KEYWORD.length) === PNG_XMP_KEYWORD) {
+      // keyword\0 compressionFlag compressionMethod languageTag\0 translatedKeyword\0 text
+      const text = decodeText(view, data, length);
+      const xmpStart = text.indexOf('<');
+      if (xmpStart >= 0 && view.getUint8(data + PNG_XMP_KEYWORD.length + 1) === 0) raw.xmp = text.slice(xmpStart);
+    }
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return raw;
+};
+
+const scanWebp = (view: DataView): RawMetadata => {
+  const raw: RawMetadata = {};
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const type = ascii(view, offset, 4);
+    const length = view.getUint32(offset + 4, true);
+    const data = offset + 8;
+    if (type === 'EXIF') {
+      raw.tiff = { view, offset: ascii(view, data, EXIF_HEADER.length) === EXIF_HEADER ? data + EXIF_HEADER.length : data };
+    }
+    if (type === 'XMP ') raw.xmp = decodeText(view, data, length);
+    offset += 8 + length + (length % 2);
+  }
+  return raw;
+};
+
+const scanContainer = (view: DataView): RawMetadata => {
+  if (view.byteLength < 12) return {};
+  if (view.getUint16(0) === 0xffd8) return scanJpeg(view);
+  if (view.getUint32(0) === 0x89504e47) return scanPng(view);
+  if (ascii(view, 0, 4) === 'RIFF' && ascii(view, 8, 4) === 'WEBP') return scanWebp(view);
+  return {};
+};
+
+const compact = (meta: CameraMetadata): CameraMetadata =>
+  Object.fromEntries(Object.entries(meta).filter(([, value]) => value !== undefined && value !== '')) as CameraMetadata;
+
+// EXIF 優先，缺的欄位再由 XMP 補
+const readMetadata = async (file: File): Promise<CameraMetadata> => {
+  const size = file.type === 'image/jpeg' ? Math.min(file.size, JPEG_SCAN_BYTES) : file.size;
+  const view = new DataView(await file.slice(0, size).arrayBuffer());
+  const raw = scanContainer(view);
+  const exif = raw.tiff ? compact(parseTiff(raw.tiff.view, raw.tiff.offset)) : {};
+  const xmp = raw.xmp ? compact(parseXmp(raw.xmp)) : {};
+  return { ...xmp, ...exif };
+};
+
+// 沒有任何拍攝資訊時回傳 undefined
+export const parseCameraMetadata = async (file: File, { keepGps = false }: CameraMetadataOptions = {}): Promise<CameraMetadata | undefined> => {
+  if (!file.type.startsWith('image/')) return undefined;
+  try {
+    const { gps, ...meta } = await readMetadata(file);
+    const result = compact(keepGps ? { ...meta, gps } : meta);
+    const { orientation: _orientation, ...descriptive } = result;
+    return Object.keys(descriptive).length ? result : undefined;
+  } catch (e) {
+    console.warn("Failed to read camera metadata", e);
+    return undefined;
+  }
+};
+
+// 上傳前轉正用；沒有 EXIF 時視為 1（正常方向）
+export const readImageOrientation = async (file: File): Promise<number> => {
+  try {
+    return (await readMetadata(file)).orientation ?? 1;
+  } catch {
+    return 1;
+  }
+};
+
+// --- 移除中繼資料 ---
+// 上傳與儲存前整段拿掉 EXIF、XMP、IPTC 與文字註解，壓縮後的像素資料原封不動。
+// 只保留方向：拿掉 EXIF 後直拍照片會變成橫躺，因此改寫成只有 Orientation 的最小 EXIF。
+
+// big-endian TIFF header + 1 entry (Orientation, SHORT)
+export const orientationTiff = (orientation: number) => new Uint8Array([
+  0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,
+  0x00, 0x01,
+  0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00,
+]);
+
+const EXIF_HEADER_BYTES = new Uint8Array([0x45, 0x78, 0x69, 0x66, 0x00, 0x00]);
+
+// APP1 / APP13 (IPTC) / COM 移除，APP0、ICC (APP2)、Adobe (APP14) 等影響解碼的區段保留
+const JPEG_METADATA_MARKERS = [0xe1, 0xed, 0xfe];
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME'];
+const WEBP_METADATA_CHUNKS = ['EXIF', 'XMP '];
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+const orientationOf = (view: DataView) => {
+  const { tiff } = scanContainer(view);
+  return tiff ? parseTiff(tiff.view, tiff.offset).orientation ?? 1 : 1;
+};
+
+const stripJpeg = (bytes: Uint8Array, orientation: number): BlobPart[] | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: BlobPart[] = [bytes.slice(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) {
+      if (orientation > 1) {
+        const app1 = [...EXIF_HEADER_BYTES, ...orientationTiff(orientation)];
+        // 放在 APP0 (JFIF) 之後
+        parts.splice(bytes[3] === 0xe0 ? 2 : 1, 0, new Uint8Array([0xff, 0xe1, 0x00, app1.length + 2, ...app1]));
+      }
+      parts.push(bytes.slice(offset));
+      return parts;
+    }
+    const length = view.getUint16(offset + 2);
+    if (!JPEG_METADATA_MARKERS.includes(marker)) parts.push(bytes.slice(offset, offset + 2 + length));
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// PNG 的 eXIf 需重算 CRC，有方向時交給呼叫端重新編碼
+const stripPng = (bytes: Uint8Array, orientation: number): BlobPart[] | null => {
+  if (orientation > 1) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: BlobPart[] = [bytes.slice(0, 8)];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = ascii(view, offset + 4, 4);
+    if (!PNG_METADATA_CHUNKS.includes(type)) parts.push(bytes.slice(offset, offset + 12 + length));
+    offset += 12 + length;
+    if (type === 'IEND') return parts;
+  }
+  return null;
+};
+
+const stripWebp = (bytes: Uint8Array, orientation: number): BlobPart[] | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(view, offset, 4);
+    const length = view.getUint32(offset + 4, true);
+    const end = offset + 8 + length + (length % 2);
+    if (end > bytes.length) return null;
+    if (!WEBP_METADATA_CHUNKS.includes(type)) chunks.push(bytes.slice(offset, end));
+    offset = end;
+  }
+  const vp8x = chunks.find(chunk => ascii(new DataView(chunk.buffer), 0, 4) === 'VP8X');
+  if (vp8x) {
+    vp8x[8] &= ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG);
+    // 只有延伸格式 (VP8X) 能帶 EXIF chunk，規格要求放在影像資料之後
+    if (orientation > 1) {
+      const tiff = orientationTiff(orientation);
+      const exif = new Uint8Array(8 + tiff.length);
+      exif.set([0x45, 0x58, 0x49, 0x46, tiff.length, 0, 0, 0]);
+      exif.set(tiff, 8);
+      chunks.push(exif);
+      vp8x[8] |= WEBP_EXIF_FLAG;
+    }
+  } else if (orientation > 1) {
+    return null;
+  }
+  const size = 4 + chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const header = bytes.slice(0, 12);
+  new DataView(header.buffer).setUint32(4, size, true);
+  return [header, ...chunks];
+};
+
+// 無法無損處理的格式（AVIF、HEIC、帶方向的 PNG 等）回傳 null，由呼叫端重新編碼
+export const stripImageMetadata = async (file: File): Promise<File | null> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  if (view.byteLength < 12) return null;
+  const orientation = orientationOf(view);
+  const parts = view.getUint16(0) === 0xffd8
+    ? stripJpeg(bytes, orientation)
+    : view.getUint32(0) === 0x89504e47
+      ? stripPng(bytes, orientation)
+      : ascii(view, 0, 4) === 'RIFF' && ascii(view, 8, 4) === 'WEBP'
+        ? stripWebp(bytes, orientation)
+        : null;
+  return parts && new File(parts, file.name, { type: file.type, lastModified: file.lastModified });
+};
+
+// --- 顯示 / 提示詞 ---
+
+export const formatExposureTime = (seconds: number) =>
+  seconds >= 1 ? `${Number(seconds.toFixed(1))}s` : `1/${Math.round(1 / seconds)}s`;
+
+export const getCameraBody = ({ make, model }: CameraMetadata) =>
+  model && make && !model.toLowerCase().startsWith(make.toLowerCase().split(' ')[0]) ? `${make} ${model}` : model ?? make;
+
+export const cameraMetadataEntries = (meta: CameraMetadata): { label: string; value: string }[] => {
+  const entries = [
+    { label: '相機', value: getCameraBody(meta) },
+    { label: '鏡頭', value: meta.lens },
+    {
+      label: '焦距',
+      value: meta.focalLength !== undefined
+        ? `${Number(meta.focalLength.toFixed(1))}mm${meta.focalLength35mm && meta.focalLength35mm !== Math.round(meta.focalLength) ? ` (${meta.focalLength35mm}mm eq.)` : ''}`
+        : meta.focalLength35mm !== undefined ? `${meta.focalLength35mm}mm eq.` : undefined,
+    },
+    { label: '光圈', value: meta.aperture !== undefined ? `f/${Number(meta.aperture.toFixed(1))}` : undefined },
+    { label: '快門', value: meta.exposureTime !== undefined ? formatExposureTime(meta.exposureTime) : undefined },
+    { label: 'ISO', value: meta.iso !== undefined ? String(meta.iso) : undefined },
+    { label: '拍攝時間', value: meta.capturedAt?.replace('T', ' ') },
+    { label: 'GPS', value: meta.gps ? `${meta.gps.latitude.toFixed(5)}, ${meta.gps.longitude.toFixed(5)}` : undefined },
+  ];
+  return entries.filter((entry): entry is { label: string; value: string } => !!entry.value);
+};
+
+export const describeCameraMetadata = (meta: CameraMetadata) => {
+  const parts = [
+    getCameraBody(meta) && `camera ${getCameraBody(meta)}`,
+    meta.lens && `lens ${meta.lens}`,
+    meta.focalLength !== undefined && `focal length ${Number(meta.focalLength.toFixed(1))}mm`,
+    meta.focalLength35mm !== undefined && `${meta.focalLength35mm}mm full-frame equivalent`,
+    meta.aperture !== undefined && `aperture f/${Number(meta.aperture.toFixed(1))}`,
+    meta.exposureTime !== undefined && `shutter ${formatExposureTime(meta.exposureTime)}`,
+    meta.iso !== undefined && `ISO ${meta.iso}`,
+    meta.capturedAt && `captured ${meta.capturedAt.replace('T', ' ')} (camera local time)`,
+    meta.gps && `GPS ${meta.gps.latitude.toFixed(4)}, ${meta.gps.longitude.toFixed(4)}`,
+  ];
+  return parts.filter(Boolean).join(', ');
+};
@@ -0,0 +1,232 @@
+import { AIFeature } from "../types";
+import type { AIProvider, AIRequest } from "./aiProvider";
+import { sleep } from "./retry";
+
+// 離線 Fixture Provider：不需金鑰、不耗額度，同樣的輸入永遠得到同樣的輸出。
+// 用於 Demo、開發與測試，模擬 HTTP 延遲。
+
+const SIMULATED_LATENCY_MS = 600;
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 40;
+
+// 簡單的字串雜湊 (FNV-1a)，讓輸出可隨輸入變化但保持決定性
+const hashRequest = (request: AIRequest): string => {
+  const source = typeof request.contents === 'string'
+    ? request.contents
+    : request.contents.parts.map(p => p.text ?? `${p.inlineData?.mimeType}:${p.inlineData?.data.length}`).join('|');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < source.length; i++) {
+    hash ^= source.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const extractFeedback = (request: AIRequest): string => {
+  if (typeof request.contents === 'string') return '';
+  const text = request.contents.parts.map(p => p.text || '').join(' ');
+  const match = text.match(/feedback: "([^"]*)"/i);
+  return match ? match[1] : '';
+};
+
+// 多參考分析：依 [Reference #n] 標記產生每張參考的說明
+const referenceNotesFor = (request: AIRequest) => {
+  if (typeof request.contents === 'string') return {};
+  const roles = request.contents.parts
+    .map(p => p.text?.match(/^\[Reference #(\d+)\] role: ([^,]+)/))
+    .filter((m): m is RegExpMatchArray => !!m);
+  if (roles.length < 2) return {};
+  return {
+    referenceNotes: roles.map(m => ({ index: Number(m[1]), contribution: `採用參考 #${m[1]} 的 ${m[2]}。` })),
+  };
+};
+
+const FIXTURES: Record<AIFeature, (request: AIRequest, tag: string) => unknown> = {
+  'director-image': (request, tag) => ({
+    ...referenceNotesFor(request),
+    title: `Fixture Style ${tag.slice(0, 4)}`,
+    analysis: `【構圖】三分法構圖，主體位於右側交叉點，前景留白引導視線。\n【光影】黃金時段側逆光，輪廓光明顯，陰影柔和。\n【風格】電影感調色，低飽和青橙色調，35mm 膠片顆粒。`,
+    prompt: `Cinematic wide shot, subject placed on the right third, golden hour rim light, soft shadows, teal and orange grade, low saturation, 35mm film grain, shallow depth of field, shot on ARRI Alexa, 50mm lens --ref ${tag}`,
+    facets: {
+      subject: 'lone traveler gazing at the horizon',
+      composition: 'cinematic wide shot, subject placed on the right third',
+      camera: 'shot on ARRI Alexa, 50mm lens, shallow depth of field',
+      lighting: 'golden hour rim light, soft shadows',
+      colorPalette: 'teal and orange grade, low saturation',
+      style: '35mm film grain',
+      mood: 'calm, contemplative',
+      negative: ['text', 'watermark'],
+    },
+  }),
+  'director-refine': (request, tag) => ({
+    ...referenceNotesFor(request),
+    analysis: `【修正策略】根據回饋「${extractFeedback(request) || '參考失敗圖'}」調整：加強主體辨識度，降低背景雜訊，保留原有光影氛圍。`,
+    prompt: `Cinematic wide shot, clearly defined subject on the right third, simplified background, golden hour rim light, soft shadows, teal and orange grade, 35mm film grain --ref ${tag}`,
+    facets: {
+      subject: 'clearly defined lone traveler gazing at the horizon',
+      composition: 'cinematic wide shot, subject on the right third, simplified background',
+      camera: '50mm lens, shallow depth of field',
+      lighting: 'golden hour rim light, soft shadows',
+      colorPalette: 'teal and orange grade',
+      style: '35mm film grain',
+      mood: 'calm, contemplative',
+      negative: ['text', 'watermark', 'cluttered background'],
+    },
+  }),
+  'video-prompt': (_, tag) => ({
+    analysis: `【運鏡】緩慢推軌 (Dolly In)，維持主體於畫面右側。\n【動作】主體輕微轉頭，髮絲隨風擺動。\n【節奏】4 秒平穩節奏，無剪接。`,
+    prompt: `Slow dolly in toward the subject, subtle head turn, hair gently moving in the breeze, golden hour light flickering through leaves, steady 4-second shot, cinematic motion blur --ref ${tag}`,
+  }),
+  'video-refine': (request, tag) => ({
+    analysis: `【運鏡修正】根據回饋「${extractFeedback(request) || '參考失敗影片'}」降低運鏡速度，移除旋轉，動作幅度縮小。`,
+    prompt: `Very slow dolly in, no camera rotation, minimal subject movement, soft breeze, stable framing, golden hour light --ref ${tag}`,
+  }),
+  'shot-list': (_, tag) => ({
+    analysis: `【剪輯節奏】三個鏡頭由遠到近，逐步收緊情緒；以匹配剪接與溶接串連，整體節奏舒緩。`,
+    prompt: `Cinematic golden hour sequence, teal and orange grade, 35mm film grain, gentle pacing --ref ${tag}`,
+    shots: [
+      {
+        start: 0, end: 3.2, shotSize: 'Extreme wide', cameraMovement: 'Slow aerial push-in', lens: '24mm', transition: 'Cut',
+        description: '空拍建立鏡頭，夕陽下的海岸線。',
+        imagePrompt: 'Aerial extreme wide shot of a coastline at golden hour, long shadows, teal and orange grade',
+        motionPrompt: 'Slow aerial push-in over the coastline, smooth drone movement, golden hour light',
+      },
+      {
+        start: 3.2, end: 6.8, shotSize: 'Medium', cameraMovement: 'Handheld tracking', lens: '35mm', transition: 'Match cut',
+        description: '主角沿著海邊行走，手持跟拍。',
+        imagePrompt: 'Medium shot of a traveler walking along the beach, rim light, shallow depth of field, 35mm film grain',
+        motionPrompt: 'Handheld tracking shot following the traveler, natural sway, warm backlight',
+      },
+      {
+        start: 6.8, end: 10, shotSize: 'Close-up', cameraMovement: 'Static', lens: '85mm', transition: 'Dissolve',
+        description: '主角側臉特寫，髮絲被風吹動。',
+        imagePrompt: 'Close-up profile portrait at sunset, hair moving in the wind, 85mm lens, creamy bokeh',
+        motionPrompt: 'Static close-up, subtle hair movement in the breeze, slow blink, soft flicker of sunlight',
+      },
+    ],
+  }),
+  'match-score': () => ({
+    overall: 68,
+    summary: '整體氛圍接近，但光線方向與色調偏差明顯，主體位置也偏離原本的三分點。',
+    scores: [
+      { dimension: 'composition', score: 72, note: '主體偏向畫面中央，少了右側三分點的留白。', fix: 'place the subject on the right third with open space on the left' },
+      { dimension: 'lighting', score: 54, note: '光源變成正面平光，缺少輪廓光。', fix: 'strong golden hour backlight with a visible rim light' },
+      { dimension: 'palette', score: 61, note: '飽和度過高，青橙對比不足。', fix: 'muted teal and orange grade, low saturation' },
+      { dimension: 'subject', score: 85, note: '主體服裝與姿態大致正確。', fix: 'keep the lone traveler gazing at the horizon' },
+      { dimension: 'style', score: 70, note: '畫面過於乾淨，缺少膠片顆粒。', fix: 'add 35mm film grain and subtle halation' },
+    ],
+  }),
+  'storyboard': (request, tag) => {
+    const text = typeof request.contents === 'string' ? request.contents : request.contents.parts.map(p => p.text || '').join(' ');
+    const count = Number(text.match(/(\d+)-shot storyboard/)?.[1] ?? 4);
+    const beats = [
+      { shotSize: 'Extreme wide', cameraMovement: 'Slow aerial push-in', description: '建立鏡頭：夕陽下的海岸與主角的剪影。', subject: 'aerial view of the coastline with the traveler as a tiny silhouette' },
+      { shotSize: 'Medium', cameraMovement: 'Handheld tracking', description: '主角沿著浪花邊行走。', subject: 'the traveler walking along the waterline' },
+      { shotSize: 'Close-up', cameraMovement: 'Static', description: '側臉特寫，望向地平線。', subject: 'profile close-up of the traveler gazing at the horizon' },
+      { shotSize: 'Insert', cameraMovement: 'Slow tilt down', description: '腳印被海浪抹去的細節。', subject: 'footprints in wet sand washed by a wave' },
+      { shotSize: 'Wide', cameraMovement: 'Slow dolly out', description: '收尾：主角走向逆光，畫面淡出。', subject: 'the traveler walking into the sun' },
+    ];
+    return {
+      analysis: `【敘事節奏】${count} 個鏡頭由遠到近再拉開，以動作匹配串連；所有鏡頭維持同一時段的逆光與服裝。`,
+      prompt: `Cinematic golden hour sequence, teal and orange grade, 35mm film grain --ref ${tag}`,
+      storyboard: {
+        continuity: {
+          character: 'young traveler with shoulder-length dark hair',
+          wardrobe: 'oversized beige linen shirt, rolled-up jeans, barefoot',
+          lighting: 'low golden backlight with warm rim light',
+          timeOfDay: 'golden hour, 20 minutes before sunset',
+        },
+        shots: Array.from({ length: count }, (_, i) => {
+          const beat = beats[i % beats.length];
+          return {
+            duration: 3,
+            shotSize: beat.shotSize,
+            cameraMovement: beat.cameraMovement,
+            description: beat.description,
+            imagePrompt: `${beat.shotSize} shot, ${beat.subject}, teal and orange grade, 35mm film grain`,
+            motionPrompt: `${beat.cameraMovement}, ${beat.subject}, gentle breeze, steady pacing`,
+          };
+        }),
+      },
+    };
+  },
+  'wallpaper': (_, tag) => ({
+    title: `Fixture Wallpaper ${tag.slice(0, 4)}`,
+    analysis: `【融合邏輯】保留風格圖的霓虹色調與顆粒質感，將主角置於畫面下方三分之一，上方保留時鐘與通知的留白空間。`,
+    prompt: `Vertical 9:16 phone wallpaper, neon magenta and cyan palette, grainy risograph texture, subject centered in lower third, clean negative space at the top, soft glow, high detail`,
+    facets: {
+      subject: 'subject centered in lower third',
+      composition: 'vertical 9:16 phone wallpaper, clean negative space at the top',
+      camera: 'flat frontal view',
+      lighting: 'soft glow',
+      colorPalette: 'neon magenta and cyan palette',
+      style: 'grainy risograph texture, high detail',
+      mood: 'dreamy, energetic',
+      negative: ['text', 'busy top area'],
+    },
+  }),
+  'seo': (_, tag) => ({
+    seo: {
+      titles: [
+        `Golden hour portrait in cinematic teal and orange tones`,
+        `Young adult enjoying warm sunset light outdoors (${tag.slice(0, 4)})`,
+      ],
+      bestTitle: `Golden hour portrait in cinematic teal and orange tones`,
+      keywords: [
+        'golden hour', 'sunset', 'portrait', 'cinematic', 'teal and orange', 'outdoors', 'lifestyle', 'warm light',
+        'young adult', 'candid', 'nature', 'summer', 'backlit', 'rim light', 'film look', 'calm', 'freedom',
+        'happiness', 'relaxation', 'evening', 'sunlight', 'bokeh', 'shallow depth of field', 'authentic',
+        'people', 'one person', 'copy space', 'travel', 'wellbeing', 'serene', 'vacation', 'leisure',
+        'moody', 'color grading', 'horizontal',
+      ].join(', '),
+    },
+  }),
+  'market-insights': () => ({
+    trendingThemes: [
+      { title: 'Authentic Everyday Moments', description: '真實、非擺拍的生活瞬間持續熱賣，特別是多元族群與跨世代的家庭場景。' },
+      { title: 'AI & Human Collaboration', description: '人機協作、科技辦公與數據視覺化題材在企業客戶中需求旺盛。' },
+      { title: 'Sustainable Living', description: '永續生活、再生能源與低碳飲食的商業素材搜尋量穩定成長。' },
+    ],
+    upcomingEvents: [
+      { name: 'Halloween', keywords: ['halloween', 'pumpkin', 'costume', 'trick or treat', 'spooky', 'autumn night'] },
+      { name: 'Thanksgiving', keywords: ['thanksgiving', 'family dinner', 'turkey', 'gratitude', 'harvest', 'autumn table'] },
+      { name: 'Christmas', keywords: ['christmas', 'holiday season', 'gift', 'festive lights', 'winter', 'family celebration', 'xmas tree'] },
+    ],
+    hotKeywords: [
+      'autumn', 'cozy', 'remote work', 'wellness', 'artificial intelligence',
+      'sustainability', 'diversity', 'holiday shopping', 'minimal background', 'copy space',
+    ],
+    commercialAdvice: '提前 6-8 週上傳節慶素材，並在畫面中保留乾淨的留白區域，方便品牌放置文案。',
+  }),
+};
+
+// 粗估 token 數（約 4 字元 / token），讓用量統計在離線模式也有數字
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const estimateUsage = (request: AIRequest, output: string) => ({
+  inputTokens: estimateTokens(request.systemInstruction) + estimateTokens(
+    typeof request.contents === 'string'
+      ? request.contents
+      : request.contents.parts.map(p => p.text ?? '').join('')
+  ) + (typeof request.contents === 'string' ? 0 : request.contents.parts.filter(p => p.inlineData).length * 258),
+  outputTokens: estimateTokens(output),
+});
+
+export const fixtureProvider: AIProvider = {
+  id: 'fixture',
+  label: 'Offline Fixtures',
+  generateContent: async (request) => {
+    await sleep(SIMULATED_LATENCY_MS, request.signal);
+    const text = JSON.stringify(FIXTURES[request.feature](request, hashRequest(request)));
+    return { text, usage: estimateUsage(request, text) };
+  },
+  generateContentStream: async function* (request) {
+    await sleep(SIMULATED_LATENCY_MS, request.signal);
+    const text = JSON.stringify(FIXTURES[request.feature](request, hashRequest(request)));
+    for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+      const isLast = i + STREAM_CHUNK_SIZE >= text.length;
+      yield { text: text.slice(i, i + STREAM_CHUNK_SIZE), usage: isLast ? estimateUsage(request, text) : undefined };
+      await sleep(STREAM_CHUNK_DELAY_MS, request.signal);
+    }
+  },
+};
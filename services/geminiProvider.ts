@@ -0,0 +1,55 @@
+import { GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import type { AIProvider } from "./aiProvider";
+import type { TokenUsage } from "./usageTracker";
+
+// 設定 AI 連線（延遲建立，讓離線 provider 不需要金鑰也能運作）
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!client) client = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY });
+  return client;
+};
+
+// thinking tokens 以 output 計價
+const toTokenUsage = (metadata?: GenerateContentResponseUsageMetadata): TokenUsage | undefined =>
+  metadata && {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  };
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini API',
+  generateContent: async ({ model, contents, systemInstruction, responseSchema, temperature, maxOutputTokens, signal }) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema,
+        temperature,
+        maxOutputTokens,
+        abortSignal: signal
+      }
+    });
+    return { text: response.text || "", usage: toTokenUsage(response.usageMetadata) };
+  },
+  generateContentStream: async function* ({ model, contents, systemInstruction, responseSchema, temperature, maxOutputTokens, signal }) {
+    const stream = await getClient().models.generateContentStream({
+      model,
+      contents,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema,
+        temperature,
+        maxOutputTokens,
+        abortSignal: signal
+      }
+    });
+    for await (const chunk of stream) {
+      yield { text: chunk.text || "", usage: toTokenUsage(chunk.usageMetadata) };
+    }
+  },
+};
@@ -1,112 +1,200 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { MediaFile, DirectorResponse, StockSenseiResponse, MarketInsight } from "../types";
-
-// 設定 AI 連線
-const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY });
-
-// 【關鍵修復】改用完整版本號，解決影片分析時的 404 錯誤
-const MODEL_ID = "gemini-3-pro-preview"; 
-
-// --- 以下 Schema 定義保持不變 ---
-const stockSenseiSchema = {
-  type: Type.OBJECT,
-  properties: {
-    seo: {
-      type: Type.OBJECT,
-      properties: {
-        titles: { 
-          type: Type.ARRAY, 
-          items: { type: Type.STRING },
-          description: "Two professional stock titles in English."
-        },
-        bestTitle: { 
-          type: Type.STRING,
-          description: "The most commercially viable title for stock platforms."
-        },
-        keywords: { 
-          type: Type.STRING,
-          description: "35 to 50 relevant English keywords separated by commas."
-        },
-      },
-      required: ["titles", "bestTitle", "keywords"],
-    },
-  },
-  required: ["seo"],
+import { Schema, Type } from "@google/genai";
+import { MediaFile, DirectorResponse, StockSenseiResponse, MarketInsight, ResultMeta, ReferenceRole, MatchReport, StoryboardShot } from "../types";
+import { AIPart, AIProvider, AIRequest, AIResponse, getActiveProvider } from "./aiProvider";
+import { AIAbortError, AITimeoutError, AIValidationError } from "./aiErrors";
+import { parseAndValidate } from "./schemaValidator";
+import { createCallSignal, withRetry } from "./retry";
+import { extractPartialStringFields } from "./partialJson";
+import { RenderedPrompt, renderPromptTemplate } from "./promptTemplates";
+import { computeCacheKey, getCachedResponse, isCacheEnabled, putCachedResponse } from "./responseCache";
+import { recordUsage } from "./usageTracker";
+import { getGenerationSettings } from "./modelSettings";
+import { withShotIds } from "./storyboard";
+import { RESPONSE_SCHEMAS } from "./aiContracts.mjs";
+import { describeImageStats } from "./imageStats";
+import { describeCameraMetadata } from "./cameraMetadata";
+
+// 驗證失敗時最多再請模型修復幾次
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// 單次功能呼叫（含重試與修復）的預設時間上限
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+export interface AICallOptions<T = unknown> {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // 提供時改用串流，逐段回報目前已收到的頂層字串欄位
+  onPartial?: (partial: Partial<T>) => void;
+  // 略過快取，強制重新呼叫模型（結果仍會寫回快取）
+  forceRefresh?: boolean;
+}
+
+const withRepairInstruction = (request: AIRequest, invalidText: string, issues: string[]): AIRequest => {
+  const parts: AIPart[] = typeof request.contents === 'string'
+    ? [{ text: request.contents }]
+    : [...request.contents.parts];
+  parts.push({
+    text: `Your previous reply did not match the required JSON schema.\nProblems: ${issues.join('; ')}\nPrevious reply: ${invalidText.slice(0, 2000) || '(empty)'}\nReturn the complete corrected JSON only.`
+  });
+  return { ...request, contents: { parts } };
 };
 
-const marketInsightSchema = {
-  type: Type.OBJECT,
-  properties: {
-    trendingThemes: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          description: { type: Type.STRING },
-        },
-        required: ["title", "description"],
-      },
-    },
-    upcomingEvents: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          name: { type: Type.STRING },
-          keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
-        },
-        required: ["name", "keywords"],
-      },
-    },
-    hotKeywords: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-    },
-    commercialAdvice: { type: Type.STRING },
-  },
-  required: ["trendingThemes", "upcomingEvents", "hotKeywords", "commercialAdvice"],
+// 串流時可即時顯示的欄位：Schema 頂層的字串欄位 (title / analysis / prompt)
+const streamableFields = (schema: Schema): string[] =>
+  Object.entries(schema.properties || {})
+    .filter(([, property]) => property.type === Type.STRING)
+    .map(([key]) => key);
+
+const requestResponse = async <T>(provider: AIProvider, request: AIRequest, onPartial?: (partial: Partial<T>) => void): Promise<AIResponse> => {
+  if (!onPartial || !provider.generateContentStream) {
+    return provider.generateContent(request);
+  }
+  const fields = streamableFields(request.responseSchema);
+  const response: AIResponse = { text: '' };
+  for await (const chunk of provider.generateContentStream(request)) {
+    response.text += chunk.text;
+    if (chunk.usage) response.usage = chunk.usage;
+    onPartial(extractPartialStringFields(response.text, fields) as Partial<T>);
+  }
+  return response;
+};
+
+// 所有呼叫統一經由目前選定的 provider (Gemini / 離線 Fixture)，
+// 並依 responseSchema 驗證回應；不合格時帶著問題清單請模型修復
+// 可取消、有時間上限，429/503 等暫時性錯誤會自動指數退避重試
+// 模型與生成參數依功能從設定帶入
+interface StructuredRequest<T> extends Pick<AIRequest, 'feature' | 'contents' | 'schemaId'> {
+  prompt: RenderedPrompt;
+  // Schema 表達不了的檢查（例如鏡數需等於使用者選擇），回傳的問題同樣交給模型修復
+  validate?: (value: T) => string[];
+}
+
+const callStructured = async <T>({ prompt, validate, ...baseRequest }: StructuredRequest<T>, options: AICallOptions<T> = {}): Promise<T> => {
+  const provider = getActiveProvider();
+  const request: AIRequest = {
+    ...baseRequest,
+    ...getGenerationSettings(baseRequest.feature),
+    systemInstruction: prompt.text,
+    templateVersion: prompt.templateVersion,
+    promptVariables: prompt.variables,
+    responseSchema: RESPONSE_SCHEMAS[baseRequest.schemaId],
+  };
+
+  const cacheKey = isCacheEnabled() ? await computeCacheKey(request, provider.id) : null;
+  if (cacheKey && !options.forceRefresh) {
+    const hit = await getCachedResponse<T>(cacheKey);
+    if (hit) {
+      recordUsage({ feature: request.feature, provider: provider.id, model: request.model, cached: true });
+      const value = hit.value as T & { meta?: ResultMeta };
+      return { ...value, meta: { ...value.meta, cached: true, cachedAt: hit.createdAt } } as T;
+    }
+  }
+
+  const call = createCallSignal(options.signal, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  let attemptRequest: AIRequest = { ...request, signal: call.signal };
+  let lastText = '';
+  let lastIssues: string[] = [];
+
+  try {
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const { text, usage } = await withRetry(() => requestResponse(provider, attemptRequest, options.onPartial), call.signal, request.feature);
+      recordUsage({ feature: request.feature, provider: provider.id, model: request.model, usage });
+      const parsed = parseAndValidate<T>(text, request.responseSchema);
+      const issues = parsed.value !== undefined && validate ? validate(parsed.value) : parsed.issues;
+      const value = issues.length ? undefined : parsed.value;
+      if (value !== undefined) {
+        if (cacheKey) await putCachedResponse(cacheKey, request, provider.id, value);
+        return value;
+      }
+
+      console.warn(`[${request.feature}] invalid AI response (attempt ${attempt + 1})`, issues);
+      lastText = text;
+      lastIssues = issues;
+      attemptRequest = { ...withRepairInstruction(request, lastText, lastIssues), signal: call.signal };
+    }
+  } finally {
+    call.dispose();
+  }
+
+  throw new AIValidationError(request.feature, lastIssues, lastText);
+};
+
+// 素材轉成送給模型的 parts；已取樣關鍵影格的影片改送影格 + 時長/fps 資訊
+const mediaToParts = (media: MediaFile): AIPart[] => {
+  if (media.keyframes?.length) {
+    const meta = media.videoMeta;
+    const header = meta
+      ? `[Video keyframes] ${media.keyframes.length} frames sampled (${meta.samplingMode === 'scene' ? 'scene-change' : 'fixed-interval'}) from a ${meta.duration.toFixed(1)}s video, ${meta.width}x${meta.height}${meta.fps ? `, ${meta.fps} fps` : ''}. Treat them as one continuous clip in chronological order.`
+      : `[Video keyframes] ${media.keyframes.length} frames in chronological order.`;
+    return [
+      { text: header },
+      ...media.keyframes.flatMap(frame => [
+        { text: `t=${frame.time.toFixed(2)}s` },
+        { inlineData: { mimeType: frame.mimeType, data: frame.base64Data } },
+      ]),
+    ];
+  }
+  return [{ inlineData: { mimeType: media.mimeType!, data: media.base64Data! } }];
 };
 
-const directorSchema = {
-  type: Type.OBJECT,
-  properties: {
-    title: { type: Type.STRING },
-    analysis: { type: Type.STRING },
-    prompt: { type: Type.STRING },
-  },
-  required: ["analysis", "prompt"],
+const REFERENCE_ROLE_LABELS: Record<ReferenceRole, string> = {
+  all: 'overall look',
+  style: 'style / color / texture only',
+  composition: 'composition / framing only',
+  subject: 'subject only',
 };
 
+// 每張參考前加上編號、用途與權重，讓模型知道該取哪些元素
+const referencesToParts = (references: MediaFile[]): AIPart[] => [
+  { text: `[Moodboard] ${references.length} references. Blend them into ONE unified prompt, respecting each reference's role and weight (1 = minor, 3 = dominant).` },
+  ...references.flatMap((reference, i) => [
+    { text: `[Reference #${i + 1}] role: ${REFERENCE_ROLE_LABELS[reference.role ?? 'all']}, weight: ${reference.weight ?? 2}/3` },
+    ...mediaToParts(reference),
+  ]),
+];
+
+const factLines = (references: MediaFile[], describe: (reference: MediaFile) => string | undefined) =>
+  references.flatMap((reference, i) => {
+    const line = describe(reference);
+    return line ? [references.length > 1 ? `Reference #${i + 1}: ${line}` : line] : [];
+  });
+
+// 瀏覽器端量測的色彩數據與照片 EXIF，當作硬性事實交給模型，colorPalette / camera 應以此為準
+const measuredFactsParts = (references: MediaFile[]): AIPart[] => {
+  const color = factLines(references, reference => reference.stats && describeImageStats(reference.stats));
+  const camera = factLines(references, reference => reference.camera && describeCameraMetadata(reference.camera));
+  return [
+    ...(color.length
+      ? [{ text: `[Measured color facts] Computed from the pixels, not estimated. Use these exact hex values and levels for colorPalette and lighting.\n${color.join('\n')}` }]
+      : []),
+    ...(camera.length
+      ? [{ text: `[Camera metadata] Read from the file's EXIF/XMP. Ground the camera, lens, depth of field and exposure in these values instead of guessing.\n${camera.join('\n')}` }]
+      : []),
+  ];
+};
+
+// 在結果上記錄產生它的模板版本
+const withMeta = <T extends { meta?: ResultMeta }>(result: T, prompt: RenderedPrompt): T => ({
+  ...result,
+  meta: { ...result.meta, templateId: prompt.templateId, templateVersion: prompt.templateVersion },
+});
+
 // --- API 功能區 ---
 
-export const getMarketInsights = async (): Promise<MarketInsight> => {
+export const getMarketInsights = async (options: AICallOptions = {}): Promise<MarketInsight> => {
   try {
     const today = new Date().toISOString().split('T')[0];
-    const systemInstruction = `
-      你現在是「StockFlow 智慧大腦」，全球頂尖圖庫市場分析官。
-      當前日期是：${today}。
-      你的任務是分析當前國際圖庫（Adobe Stock, Shutterstock, Getty Images）的搜尋趨勢、季節性需求與高頻關鍵字。
-      
-      輸出要求（繁體中文）：
-      1. 【熱門趨勢】：列出 3 個當前全球最熱賣的視覺主題。
-      2. 【即將到來的節慶】：列出 3 個最具商業潛力的節慶，並為每個節慶提供 5-8 個對應的高頻英文關鍵字。
-      3. 【高頻關鍵字】：提供 10 個與目前季節或趨勢相關的通用英文高頻搜尋詞。
-      4. 【商業建議】：給予創作者一段精確的拍攝或生成建議。
-    `;
-
-    const response = await ai.models.generateContent({
-      model: MODEL_ID,
-      contents: `請分析從 ${today} 開始的全球圖庫市場趨勢與建議。`,
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: marketInsightSchema
-      }
-    });
+    const prompt = renderPromptTemplate('market-brain', { date: today });
 
-    return JSON.parse(response.text || "{}") as MarketInsight;
+    const result = await callStructured<MarketInsight>({
+      feature: 'market-insights',
+      contents: `請分析從 ${today} 開始的全球圖庫市場趨勢與建議。`,
+      prompt,
+      schemaId: 'market-insight'
+    }, options);
+    return withMeta(result, prompt);
   } catch (error: any) {
+    if (error instanceof AIValidationError || error instanceof AIAbortError || error instanceof AITimeoutError) throw error;
     throw new Error(error.message || "Market Insights fetch failed.");
   }
 };
@@ -124,108 +212,142 @@ export const fileToGenerativePart = async (file: File): Promise<{ mimeType: stri
   });
 };
 
-export const generateStockSenseiAnalysis = async (media: MediaFile): Promise<StockSenseiResponse> => {
+export const generateStockSenseiAnalysis = async (media: MediaFile, options: AICallOptions = {}): Promise<StockSenseiResponse> => {
   try {
-    const systemInstruction = `
-      你現在是「StockSensei X」，全球頂尖圖庫 SEO 專家。
-      你的唯一任務是針對使用者提供的圖片、影片或文字描述，生成專業的英文 SEO 套件。
-      
-      輸出要求：
-      1. 【SEO Titles】: 提供 2 個精準標題。
-      2. 【Best Title】: 選出最符合圖庫搜尋權重的一個標題。
-      3. 【Keywords】: 提供 35 到 50 個英文關鍵字，以逗號分隔。
-    `;
-
-    const parts: any[] = [];
+    const prompt = renderPromptTemplate('stocksensei');
+
+    const parts: AIPart[] = [];
     if (media.type === 'text') {
       parts.push({ text: `請為以下主題生成 SEO：${media.textContent}` });
     } else {
       parts.push({ text: media.type === 'video' ? "幫我產出這段影片的 SEO 英文" : "這張圖片幫我做 SEO" });
-      parts.push({ inlineData: { mimeType: media.mimeType!, data: media.base64Data! } });
+      parts.push(...mediaToParts(media));
     }
 
-    const response = await ai.models.generateContent({
-      model: MODEL_ID,
+    const result = await callStructured<StockSenseiResponse>({
+      feature: 'seo',
       contents: { parts },
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: stockSenseiSchema
-      }
-    });
-
-    return JSON.parse(response.text || "{}") as StockSenseiResponse;
+      prompt,
+      schemaId: 'stock-sensei'
+    }, options);
+    return withMeta(result, prompt);
   } catch (error: any) {
+    if (error instanceof AIValidationError || error instanceof AIAbortError || error instanceof AITimeoutError) throw error;
     throw new Error(error.message || "StockSensei SEO generation failed.");
   }
 };
 
-export const generateReversePrompt = async (media: MediaFile): Promise<DirectorResponse> => {
+// 傳入陣列且超過一張時為多參考分析
+export const generateReversePrompt = async (media: MediaFile | MediaFile[], options: AICallOptions<DirectorResponse> = {}): Promise<DirectorResponse> => {
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_ID,
+    const references = Array.isArray(media) ? media : [media];
+    const isMulti = references.length > 1;
+    const prompt = renderPromptTemplate('visual-director');
+    const result = await callStructured<DirectorResponse>({
+      feature: 'director-image',
       contents: {
-        parts: [
+        parts: isMulti ? [
+            { text: "請綜合分析這組參考素材 (moodboard)。我要先製作一張融合它們的「靜態圖片」，請給我單一的 Image Prompt，並在 referenceNotes 說明每張參考被採用了哪些元素。" },
+            ...referencesToParts(references),
+            ...measuredFactsParts(references)
+        ] : [
             { text: "請分析這份素材。我要先製作一張風格類似的「靜態圖片」，請給我 Image Prompt。" },
-            { inlineData: { mimeType: media.mimeType!, data: media.base64Data! } }
+            ...mediaToParts(references[0]),
+            ...measuredFactsParts(references)
         ]
       },
-      config: { 
-        systemInstruction: "你是一位頂尖的 AI 視覺導演。請以「繁體中文」提供專業的視覺構圖、光影與風格分析 (analysis)，並以「英文」提供對應的 AI 繪圖提示詞 (prompt)。",
-        responseMimeType: "application/json",
-        responseSchema: directorSchema
-      }
-    });
-    return JSON.parse(response.text || "{}") as DirectorResponse;
+      prompt,
+      schemaId: isMulti ? 'multi-reference' : 'faceted-director'
+    }, options);
+    return withMeta(result, prompt);
+  } catch (e) { throw e; }
+};
+
+export const generateShotBreakdown = async (media: MediaFile, options: AICallOptions<DirectorResponse> = {}): Promise<DirectorResponse> => {
+  try {
+    const prompt = renderPromptTemplate('shot-director');
+    const result = await callStructured<DirectorResponse>({
+      feature: 'shot-list',
+      contents: {
+        parts: [
+            { text: "請逐鏡頭拆解這段影片，列出完整的分鏡表 (shot list)。" },
+            ...mediaToParts(media)
+        ]
+      },
+      prompt,
+      schemaId: 'shot-list'
+    }, options);
+    // 依時間排序，避免模型輸出順序錯亂
+    return withMeta({ ...result, shots: [...(result.shots ?? [])].sort((a, b) => a.start - b.start) }, prompt);
+  } catch (e) { throw e; }
+};
+
+// 生成圖與原始參考逐面向比對評分
+export const scoreGeneratedMatch = async (media: MediaFile, generatedImage: MediaFile, options: AICallOptions<MatchReport> = {}): Promise<MatchReport> => {
+  try {
+    const prompt = renderPromptTemplate('match-judge');
+    const result = await callStructured<MatchReport>({
+      feature: 'match-score',
+      contents: {
+        parts: [
+            { text: "[Reference] The original media:" },
+            ...mediaToParts(media),
+            { text: "[Generated] The image generated from the prompt:" },
+            ...mediaToParts(generatedImage)
+        ]
+      },
+      prompt,
+      schemaId: 'match-score'
+    }, options);
+    return withMeta(result, prompt);
   } catch (e) { throw e; }
 };
 
 export const refinePromptWithFeedback = async (
-  media: MediaFile,
+  media: MediaFile | MediaFile[],
   previousResult: DirectorResponse,
   feedback: string,
   badMedia?: MediaFile,
-  additionalMedia?: MediaFile
+  additionalMedia?: MediaFile,
+  options: AICallOptions<DirectorResponse> = {}
 ): Promise<DirectorResponse> => {
   try {
-    const parts: any[] = [
-      { text: `Refine prompt based on feedback. Previous analysis: "${previousResult.analysis}". User feedback: "${feedback}".` },
-      { inlineData: { mimeType: media.mimeType!, data: media.base64Data! } }
+    const references = Array.isArray(media) ? media : [media];
+    const isMulti = references.length > 1;
+    const parts: AIPart[] = [
+      { text: `Refine prompt based on feedback. Previous analysis: "${previousResult.analysis}". Previous prompt: "${previousResult.prompt}". User feedback: "${feedback}".` },
+      ...(isMulti ? referencesToParts(references) : mediaToParts(references[0]))
     ];
-    if (badMedia) parts.push({ inlineData: { mimeType: badMedia.mimeType!, data: badMedia.base64Data! } });
-    if (additionalMedia) parts.push({ inlineData: { mimeType: additionalMedia.mimeType!, data: additionalMedia.base64Data! } });
+    if (badMedia) parts.push(...mediaToParts(badMedia));
+    if (additionalMedia) parts.push(...mediaToParts(additionalMedia));
 
-    const response = await ai.models.generateContent({
-      model: MODEL_ID,
+    const prompt = renderPromptTemplate('refine-director');
+    const result = await callStructured<DirectorResponse>({
+      feature: 'director-refine',
       contents: { parts },
-      config: {
-        systemInstruction: "你是一位專業的視覺修正導演。請以「繁體中文」解釋修正策略 (analysis)，並以「英文」產出優化後的提示詞 (prompt)。",
-        responseMimeType: "application/json",
-        responseSchema: directorSchema
-      }
-    });
-    return JSON.parse(response.text || "{}") as DirectorResponse;
+      prompt,
+      schemaId: isMulti ? 'multi-reference' : 'faceted-director'
+    }, options);
+    return withMeta(result, prompt);
   } catch (e) { throw e; }
 };
 
-export const generateVideoPromptFromImage = async (media: MediaFile, generatedImage: MediaFile): Promise<DirectorResponse> => {
+export const generateVideoPromptFromImage = async (media: MediaFile, generatedImage: MediaFile, options: AICallOptions<DirectorResponse> = {}): Promise<DirectorResponse> => {
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_ID,
+    const prompt = renderPromptTemplate('motion-director');
+    const result = await callStructured<DirectorResponse>({
+      feature: 'video-prompt',
       contents: {
         parts: [
           { text: "Generate a video motion prompt." },
-          { inlineData: { mimeType: media.mimeType!, data: media.base64Data! } },
-          { inlineData: { mimeType: generatedImage.mimeType!, data: generatedImage.base64Data! } }
+          ...mediaToParts(media),
+          ...mediaToParts(generatedImage)
         ]
       },
-      config: {
-        systemInstruction: "你是一位 AI 動態攝影導演。請以「繁體中文」分析運鏡、動作與節奏策略 (analysis)，並以「英文」產出對應的動態提示詞 (prompt)。",
-        responseMimeType: "application/json",
-        responseSchema: directorSchema
-      }
-    });
-    return JSON.parse(response.text || "{}") as DirectorResponse;
+      prompt,
+      schemaId: 'director'
+    }, options);
+    return withMeta(result, prompt);
   } catch (e) { throw e; }
 };
 
@@ -234,48 +356,79 @@ export const refineVideoPromptWithFeedback = async (
   generatedImage: MediaFile,
   previousResult: DirectorResponse,
   feedback: string,
-  badVideo?: MediaFile
+  badVideo?: MediaFile,
+  options: AICallOptions<DirectorResponse> = {}
 ): Promise<DirectorResponse> => {
   try {
-    const parts: any[] = [
+    const parts: AIPart[] = [
       { text: `Refine video prompt. Feedback: "${feedback}".` },
-      { inlineData: { mimeType: media.mimeType!, data: media.base64Data! } },
-      { inlineData: { mimeType: generatedImage.mimeType!, data: generatedImage.base64Data! } }
+      ...mediaToParts(media),
+      ...mediaToParts(generatedImage)
     ];
-    if (badVideo) parts.push({ inlineData: { mimeType: badVideo.mimeType!, data: badVideo.base64Data! } });
+    if (badVideo) parts.push(...mediaToParts(badVideo));
 
-    const response = await ai.models.generateContent({
-      model: MODEL_ID,
+    const prompt = renderPromptTemplate('motion-refine-director');
+    const result = await callStructured<DirectorResponse>({
+      feature: 'video-refine',
       contents: { parts },
-      config: {
-        systemInstruction: "你是一位專業的動態修正式導演。請以「繁體中文」解釋運鏡修正策略 (analysis)，並以「英文」產出優化後的動態提示詞 (prompt)。",
-        responseMimeType: "application/json",
-        responseSchema: directorSchema
-      }
-    });
-    return JSON.parse(response.text || "{}") as DirectorResponse;
+      prompt,
+      schemaId: 'director'
+    }, options);
+    return withMeta(result, prompt);
+  } catch (e) { throw e; }
+};
+
+// 把核准的 image + motion prompt 展開成 N 鏡分鏡腳本
+export const generateStoryboard = async (
+  media: MediaFile,
+  generatedImage: MediaFile,
+  imagePrompt: string,
+  motionPrompt: string,
+  shotCount: number,
+  options: AICallOptions<DirectorResponse> = {}
+): Promise<DirectorResponse> => {
+  try {
+    const prompt = renderPromptTemplate('storyboard-director');
+    const result = await callStructured<DirectorResponse>({
+      feature: 'storyboard',
+      contents: {
+        parts: [
+          { text: `Expand into a ${shotCount}-shot storyboard. Approved image prompt: "${imagePrompt}". Approved motion prompt: "${motionPrompt}".` },
+          ...mediaToParts(media),
+          ...mediaToParts(generatedImage)
+        ]
+      },
+      prompt,
+      schemaId: 'storyboard',
+      validate: ({ storyboard }) => storyboard && storyboard.shots.length !== shotCount
+        ? [`$.storyboard.shots should have exactly ${shotCount} items (got ${storyboard.shots.length})`]
+        : []
+    }, options);
+    const storyboard = result.storyboard!;
+    return withMeta({
+      ...result,
+      storyboard: { ...storyboard, shots: withShotIds(storyboard.shots as Omit<StoryboardShot, 'id'>[]) },
+    }, prompt);
   } catch (e) { throw e; }
 };
 
-export const generateWallpaperFusion = async (styleSource: MediaFile | string, subjectImage?: MediaFile, customText?: string): Promise<DirectorResponse> => {
+export const generateWallpaperFusion = async (styleSource: MediaFile | string, subjectImage?: MediaFile, customText?: string, options: AICallOptions<DirectorResponse> = {}): Promise<DirectorResponse> => {
   try {
-    const parts: any[] = [];
+    const parts: AIPart[] = [];
     let promptContext = "Create cinematic wallpaper fusion prompt.";
     if (typeof styleSource === 'string') promptContext += ` Style: ${styleSource}.`;
-    else parts.push({ inlineData: { mimeType: styleSource.mimeType!, data: styleSource.base64Data! } });
-    if (subjectImage) parts.push({ inlineData: { mimeType: subjectImage.mimeType!, data: subjectImage.base64Data! } });
+    else parts.push(...mediaToParts(styleSource));
+    if (subjectImage) parts.push(...mediaToParts(subjectImage));
     if (customText) promptContext += ` User req: ${customText}.`;
     parts.push({ text: promptContext });
 
-    const response = await ai.models.generateContent({
-      model: MODEL_ID,
+    const prompt = renderPromptTemplate('wallpaper-director');
+    const result = await callStructured<DirectorResponse>({
+      feature: 'wallpaper',
       contents: { parts },
-      config: {
-        systemInstruction: "你是一位手機桌布視覺藝術總監。請以「繁體中文」說明風格融合邏輯 (analysis)，並以「英文」產出最終生成的提示詞 (prompt)。",
-        responseMimeType: "application/json",
-        responseSchema: directorSchema
-      }
-    });
-    return JSON.parse(response.text || "{}") as DirectorResponse;
+      prompt,
+      schemaId: 'faceted-director'
+    }, options);
+    return withMeta(result, prompt);
   } catch (e) { throw e; }
 };
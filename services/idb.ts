@@ -0,0 +1,67 @@
+// --- IndexedDB 共用存取 ---
+// 所有 object store 在此集中宣告；新增 store 時遞增 DB_VERSION。
+
+const DB_NAME = 'stockflow-ai';
+const DB_VERSION = 2;
+
+export type StoreName = 'responseCache' | 'sessions';
+
+const STORES: Record<StoreName, IDBObjectStoreParameters> = {
+  responseCache: { keyPath: 'key' },
+  sessions: { keyPath: 'id' },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const [name, params] of Object.entries(STORES)) {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, params);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// 以 transaction 完成為準：配額不足等錯誤在 request 成功之後才以 abort 回報
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = run(tx.objectStore(store));
+    const fail = () =>
+      reject(tx.error ?? (request.readyState === 'done' ? request.error : null) ?? new DOMException("Transaction aborted", 'AbortError'));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
+};
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(store, 'readonly', s => s.get(key));
+
+export const idbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  withStore(store, 'readonly', s => s.getAll());
+
+export const idbPut = <T>(store: StoreName, value: T): Promise<IDBValidKey> =>
+  withStore(store, 'readwrite', s => s.put(value));
+
+export const idbDelete = (store: StoreName, key: IDBValidKey): Promise<undefined> =>
+  withStore(store, 'readwrite', s => s.delete(key));
+
+export const idbClear = (store: StoreName): Promise<undefined> =>
+  withStore(store, 'readwrite', s => s.clear());
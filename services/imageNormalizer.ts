@@ -0,0 +1,207 @@
+import { UploadNormalization } from "../types";
+import { fileToGenerativePart } from "./geminiService";
+import { orientationTiff, readImageOrientation, stripImageMetadata } from "./cameraMetadata";
+import { loadImage } from "./mediaLoader";
+import { formatBytes } from "./byteSize";
+
+// --- 上傳前影像正規化 ---
+// 大張 PNG / 高畫素 JPEG 先在瀏覽器縮到指定長邊、依 EXIF 轉正並重新編碼，再轉 base64 送出。
+// 全解析度檔案（未選擇保留 GPS 時已移除中繼資料）仍留在 MediaFile.file，供本地比對與匯出使用。
+
+export type NormalizationFormat = 'image/webp' | 'image/jpeg';
+
+export interface NormalizationSettings {
+  enabled: boolean;
+  longEdge: number;
+  format: NormalizationFormat;
+  quality: number; // 0-1
+}
+
+export interface NormalizedImage {
+  data: string;
+  mimeType: string;
+  upload?: UploadNormalization; // 沿用原檔時為 undefined
+}
+
+const SETTINGS_STORAGE_KEY = 'upload_normalization';
+
+export const LONG_EDGE_OPTIONS = [1024, 1536, 2048, 3072, 4096];
+
+export const DEFAULT_NORMALIZATION_SETTINGS: NormalizationSettings = {
+  enabled: true,
+  longEdge: 2048,
+  format: 'image/webp',
+  quality: 0.85,
+};
+
+// 動圖與向量圖重新編碼會失去動畫 / 向量資訊，直接沿用原檔
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+export const getNormalizationSettings = (): NormalizationSettings => {
+  try {
+    return { ...DEFAULT_NORMALIZATION_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_NORMALIZATION_SETTINGS;
+  }
+};
+
+export const saveNormalizationSettings = (settings: NormalizationSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob | null> =>
+  new Promise(resolve => canvas.toBlob(resolve, type, quality));
+
+// 新版瀏覽器解碼 <img> 時會自動套用 EXIF 方向，舊版不會；用一張 Orientation=6 的 2×1 JPEG 實測一次
+let orientationCheck: Promise<boolean> | null = null;
+
+const browserAppliesOrientation = (): Promise<boolean> => {
+  orientationCheck ??= (async () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 2;
+    canvas.height = 1;
+    const jpeg = await canvasToBlob(canvas, 'image/jpeg', 1);
+    if (!jpeg) return true;
+    // APP1: "Exif\0\0" + Orientation=6 的 TIFF
+    const app1 = new Uint8Array([0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00, ...orientationTiff(6)]);
+    const bytes = new Uint8Array(await jpeg.arrayBuffer());
+    const url = URL.createObjectURL(new Blob([bytes.slice(0, 2), app1, bytes.slice(2)], { type: 'image/jpeg' }));
+    try {
+      return (await loadImage(url)).naturalWidth === 1;
+    } catch {
+      return true;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  })();
+  return orientationCheck;
+};
+
+// 把原始方向的影像畫成轉正後的樣子（EXIF Orientation 2-8）
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
+
+interface RenderedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+  originalWidth: number;
+  originalHeight: number;
+  orientation: number; // 原檔的 EXIF Orientation
+  scaled: boolean;
+}
+
+// 縮到指定長邊、轉正後重新編碼；canvas 輸出不帶任何 EXIF / XMP
+const renderImage = async (file: File, { longEdge, format, quality }: Omit<NormalizationSettings, 'enabled'>): Promise<RenderedImage> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const [image, exifOrientation, autoOriented] = await Promise.all([
+      loadImage(url),
+      readImageOrientation(file),
+      browserAppliesOrientation(),
+    ]);
+    // 瀏覽器已自動轉正時 naturalWidth / naturalHeight 就是轉正後的尺寸
+    const orientation = autoOriented ? 1 : exifOrientation;
+    const swapped = orientation >= 5;
+    const rawWidth = image.naturalWidth;
+    const rawHeight = image.naturalHeight;
+    const scale = Math.min(1, longEdge / Math.max(rawWidth, rawHeight));
+    const drawWidth = Math.max(1, Math.round(rawWidth * scale));
+    const drawHeight = Math.max(1, Math.round(rawHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = swapped ? drawHeight : drawWidth;
+    canvas.height = swapped ? drawWidth : drawHeight;
+    const ctx = canvas.getContext('2d')!;
+    if (format === 'image/jpeg') {
+      // JPEG 沒有透明度，透明區域補白而不是黑
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    applyOrientation(ctx, orientation, drawWidth, drawHeight);
+    ctx.drawImage(image, 0, 0, drawWidth, drawHeight);
+
+    // 不支援 WebP 編碼的瀏覽器會改回傳 PNG，此時改用 JPEG
+    let blob = await canvasToBlob(canvas, format, quality);
+    if (blob && blob.type !== format) blob = await canvasToBlob(canvas, 'image/jpeg', quality);
+    if (!blob) throw new Error("Canvas encoding failed");
+
+    return {
+      blob,
+      width: canvas.width,
+      height: canvas.height,
+      originalWidth: swapped ? rawHeight : rawWidth,
+      originalHeight: swapped ? rawWidth : rawHeight,
+      orientation: exifOrientation,
+      scaled: scale < 1,
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// 上傳與存進工作階段前移除 EXIF / XMP（含 GPS）。
+// JPEG / PNG / WebP 直接拿掉中繼資料區段；其他格式以原尺寸重新編碼。
+// GIF / SVG 沒有 EXIF 容器，維持原檔。
+export const removeImageMetadata = async (file: File, settings = getNormalizationSettings()): Promise<File> => {
+  if (!file.type.startsWith('image/') || PASSTHROUGH_TYPES.includes(file.type)) return file;
+  const stripped = await stripImageMetadata(file);
+  if (stripped) return stripped;
+  const { blob } = await renderImage(file, { ...settings, longEdge: Infinity });
+  const extension = blob.type === 'image/webp' ? 'webp' : 'jpg';
+  return new File([blob], `${file.name.replace(/\.[^.]+$/, '')}.${extension}`, { type: blob.type, lastModified: file.lastModified });
+};
+
+const passthrough = async (file: File): Promise<NormalizedImage> => fileToGenerativePart(file);
+
+// 傳入前應先經過 removeImageMetadata（使用者選擇保留 GPS 時除外），沿用原檔的路徑才不會送出中繼資料
+export const normalizeImageFile = async (file: File, settings = getNormalizationSettings()): Promise<NormalizedImage> => {
+  if (!settings.enabled || !file.type.startsWith('image/') || PASSTHROUGH_TYPES.includes(file.type)) {
+    return passthrough(file);
+  }
+
+  try {
+    const rendered = await renderImage(file, settings);
+    const { blob } = rendered;
+
+    // 不需縮圖也不需轉正，而重新編碼反而更大時，直接送原檔
+    const changed = rendered.scaled || rendered.orientation > 1;
+    if (!changed && blob.size >= file.size) return passthrough(file);
+
+    const { data } = await fileToGenerativePart(new File([blob], file.name, { type: blob.type }));
+    return {
+      data,
+      mimeType: blob.type,
+      upload: {
+        originalBytes: file.size,
+        originalWidth: rendered.originalWidth,
+        originalHeight: rendered.originalHeight,
+        sentBytes: blob.size,
+        width: rendered.width,
+        height: rendered.height,
+        mimeType: blob.type,
+        orientation: rendered.orientation,
+      },
+    };
+  } catch (e) {
+    console.warn("Image normalization failed, sending the original file", e);
+    return passthrough(file);
+  }
+};
+
+export const formatUploadSize = (upload: UploadNormalization) =>
+  `${formatBytes(upload.originalBytes)} → ${formatBytes(upload.sentBytes)}`;
+
+export const describeUpload = (upload: UploadNormalization) =>
+  `原始 ${upload.originalWidth}×${upload.originalHeight} · ${formatBytes(upload.originalBytes)}\n` +
+  `送出 ${upload.width}×${upload.height} · ${formatBytes(upload.sentBytes)} · ${upload.mimeType.replace('image/', '').toUpperCase()}` +
+  (upload.orientation > 1 ? `\n已依 EXIF 轉正 (Orientation ${upload.orientation})` : '');
@@ -0,0 +1,153 @@
+import { ImageStats, MediaFile, PaletteColor } from "../types";
+import { loadImage, loadVideoFrame } from "./mediaLoader";
+
+// --- 本地色彩 / 影像統計 ---
+// 在 canvas 上縮圖後以 median cut 量化出主色盤，並計算亮度、對比、飽和度與直方圖。
+// 結果當作「量測事實」一起送給模型，避免色彩描述只靠模型目測。
+
+const SAMPLE_LONG_EDGE = 96;
+const PALETTE_SIZE = 6;
+const HISTOGRAM_BINS = 16;
+const MAX_VIDEO_FRAMES = 4;
+const MIN_ALPHA = 128;
+
+type RGB = [number, number, number];
+
+const readPixels = (source: HTMLImageElement | HTMLVideoElement): RGB[] => {
+  const width = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+  const height = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
+  const scale = Math.min(1, SAMPLE_LONG_EDGE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const pixels: RGB[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= MIN_ALPHA) pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  return pixels;
+};
+
+// 影片優先使用已取樣的關鍵影格，否則取開頭附近的一格
+const collectPixels = async (media: MediaFile): Promise<RGB[]> => {
+  if (media.keyframes?.length) {
+    const step = Math.max(1, Math.floor(media.keyframes.length / MAX_VIDEO_FRAMES));
+    const frames = media.keyframes.filter((_, i) => i % step === 0).slice(0, MAX_VIDEO_FRAMES);
+    const images = await Promise.all(frames.map(frame => loadImage(`data:${frame.mimeType};base64,${frame.base64Data}`)));
+    return images.flatMap(readPixels);
+  }
+  if (!media.previewUrl) return [];
+  return readPixels(media.type === 'video' ? await loadVideoFrame(media.previewUrl) : await loadImage(media.previewUrl));
+};
+
+// --- median cut ---
+
+const channelRange = (pixels: RGB[], channel: number) => {
+  let min = 255;
+  let max = 0;
+  for (const pixel of pixels) {
+    if (pixel[channel] < min) min = pixel[channel];
+    if (pixel[channel] > max) max = pixel[channel];
+  }
+  return max - min;
+};
+
+const widestChannel = (pixels: RGB[]) => {
+  const ranges = [0, 1, 2].map(c => channelRange(pixels, c));
+  const channel = ranges.indexOf(Math.max(...ranges));
+  return { channel, range: ranges[channel] };
+};
+
+export const quantizePalette = (pixels: RGB[], size = PALETTE_SIZE): PaletteColor[] => {
+  if (!pixels.length) return [];
+  let boxes: RGB[][] = [pixels];
+  while (boxes.length < size) {
+    // 切分「色彩範圍 × 像素數」最大的箱子
+    const candidates = boxes
+      .map((box, index) => ({ index, ...widestChannel(box), count: box.length }))
+      .filter(c => c.count > 1 && c.range > 0);
+    if (!candidates.length) break;
+    const target = candidates.reduce((best, c) => (c.range * c.count > best.range * best.count ? c : best));
+    const sorted = [...boxes[target.index]].sort((a, b) => a[target.channel] - b[target.channel]);
+    const middle = Math.floor(sorted.length / 2);
+    boxes = [...boxes.slice(0, target.index), sorted.slice(0, middle), sorted.slice(middle), ...boxes.slice(target.index + 1)];
+  }
+
+  return boxes
+    .map(box => {
+      const sum = box.reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+      const rgb = sum.map(v => Math.round(v / box.length)) as RGB;
+      return { rgb, hex: toHex(rgb), proportion: box.length / pixels.length };
+    })
+    .sort((a, b) => b.proportion - a.proportion);
+};
+
+export const toHex = ([r, g, b]: RGB) => `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`;
+
+// --- 統計 ---
+
+const histogram = (values: number[], max: number) => {
+  const bins = new Array(HISTOGRAM_BINS).fill(0);
+  for (const value of values) bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value / max) * HISTOGRAM_BINS))]++;
+  return bins.map(count => (values.length ? count / values.length : 0));
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const computeImageStats = (pixels: RGB[]): ImageStats => {
+  const luma = pixels.map(([r, g, b]) => 0.2126 * r + 0.7152 * g + 0.0722 * b);
+  const saturation = pixels.map(([r, g, b]) => {
+    const max = Math.max(r, g, b);
+    return max ? (max - Math.min(r, g, b)) / max : 0;
+  });
+  const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+  const meanLuma = mean(luma);
+  const deviation = Math.sqrt(mean(luma.map(v => (v - meanLuma) ** 2)));
+
+  return {
+    palette: quantizePalette(pixels),
+    brightness: round((meanLuma / 255) * 100),
+    contrast: round(Math.min(100, (deviation / 127.5) * 100)),
+    saturation: round(mean(saturation) * 100),
+    lumaHistogram: histogram(luma, 256),
+    saturationHistogram: histogram(saturation, 1.0001),
+  };
+};
+
+// 同一份素材同時被多處要求時共用同一次計算
+const pending = new WeakMap<MediaFile, Promise<ImageStats | undefined>>();
+
+export const analyzeImageStats = (media: MediaFile): Promise<ImageStats | undefined> => {
+  if (media.stats) return Promise.resolve(media.stats);
+  if (media.type === 'text') return Promise.resolve(undefined);
+  if (!pending.has(media)) {
+    pending.set(media, collectPixels(media)
+      .then(pixels => (pixels.length ? computeImageStats(pixels) : undefined))
+      .catch(e => {
+        console.warn("Image statistics failed", e);
+        return undefined;
+      }));
+  }
+  return pending.get(media)!;
+};
+
+// 給模型的量測事實
+export const describeImageStats = (stats: ImageStats) =>
+  `Dominant palette: ${stats.palette.map(c => `${c.hex} (${Math.round(c.proportion * 100)}%)`).join(', ')}. ` +
+  `Brightness ${stats.brightness}/100, contrast ${stats.contrast}/100, saturation ${stats.saturation}/100.`;
+
+// 設計師用色票：可直接貼進 Figma / Illustrator 的 SVG
+export const paletteToSvg = (palette: PaletteColor[], swatchSize = 80) => {
+  const swatches = palette.map((color, i) => {
+    const x = i * swatchSize;
+    return `<rect x="${x}" y="0" width="${swatchSize}" height="${swatchSize}" fill="${color.hex}"/>` +
+      `<text x="${x + 6}" y="${swatchSize + 16}" font-family="monospace" font-size="11">${color.hex}</text>` +
+      `<text x="${x + 6}" y="${swatchSize + 30}" font-family="monospace" font-size="10" fill="#666">${Math.round(color.proportion * 100)}%</text>`;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${palette.length * swatchSize}" height="${swatchSize + 36}">${swatches.join('')}</svg>`;
+};
+
+export const paletteToText = (palette: PaletteColor[]) =>
+  palette.map(c => `${c.hex.toUpperCase()}  rgb(${c.rgb.join(', ')})  ${Math.round(c.proportion * 100)}%`).join('\n');
@@ -0,0 +1,41 @@
+// --- 生成圖比對評分 ---
+// 把評分結果中最弱的面向轉成修正回饋，交給 refinePromptWithFeedback。
+
+import { MatchDimension, MatchReport, MatchScore } from "../types";
+
+export const MATCH_DIMENSIONS: { key: MatchDimension; label: string }[] = [
+  { key: 'composition', label: '構圖 (Composition)' },
+  { key: 'lighting', label: '光影 (Lighting)' },
+  { key: 'palette', label: '色彩 (Palette)' },
+  { key: 'subject', label: '主體 (Subject)' },
+  { key: 'style', label: '風格 (Style)' },
+];
+
+// 低於此分數的面向才視為需要修正
+export const WEAK_SCORE_THRESHOLD = 80;
+const MAX_WEAK_DIMENSIONS = 2;
+
+export const getDimensionLabel = (dimension: MatchDimension) =>
+  MATCH_DIMENSIONS.find(d => d.key === dimension)?.label ?? dimension;
+
+// 依固定順序排列，重複的面向只保留第一筆
+export const orderedScores = (report: MatchReport): MatchScore[] =>
+  MATCH_DIMENSIONS
+    .map(({ key }) => report.scores.find(s => s.dimension === key))
+    .filter((s): s is MatchScore => !!s);
+
+export const getWeakestDimensions = (report: MatchReport): MatchScore[] =>
+  orderedScores(report)
+    .filter(s => s.score < WEAK_SCORE_THRESHOLD)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, MAX_WEAK_DIMENSIONS);
+
+export const buildMatchFeedback = (report: MatchReport): string => {
+  const weakest = getWeakestDimensions(report);
+  if (!weakest.length) return '';
+  return `Match score ${report.overall}/100. Weakest dimensions: ` +
+    weakest.map(s => `${s.dimension} (${s.score}/100: ${s.note}) -> ${s.fix}`).join('; ') + '.';
+};
+
+export const scoreColor = (score: number) =>
+  score >= WEAK_SCORE_THRESHOLD ? 'bg-green-500' : score >= 60 ? 'bg-amber-500' : 'bg-red-500';
@@ -0,0 +1,202 @@
+import { KeyframeSamplingMode, MediaFile } from "../types";
+import { fileToGenerativePart } from "./geminiService";
+import { sampleVideoKeyframes } from "./videoSampler";
+import { parseCameraMetadata } from "./cameraMetadata";
+import { NormalizedImage, normalizeImageFile, removeImageMetadata } from "./imageNormalizer";
+
+// --- 素材匯入 ---
+// 點選、拖放（含資料夾）、剪貼簿貼上與網址匯入都走同一條流程，最後產生 MediaFile。
+
+export const MAX_INLINE_SIZE = 20 * 1024 * 1024;
+
+export interface IngestOptions {
+  sampleVideos: boolean;              // 影片改送關鍵影格
+  samplingMode: KeyframeSamplingMode;
+  frameCount: number;
+  keepGps: boolean;
+  onSamplingProgress?: (progress: number) => void;
+}
+
+export const DEFAULT_INGEST_OPTIONS: IngestOptions = {
+  sampleVideos: false,
+  samplingMode: 'scene',
+  frameCount: 8,
+  keepGps: false,
+};
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+};
+
+const isMediaType = (type: string) => type.startsWith('image/') || type.startsWith('video/');
+
+export const isMediaFile = (file: File) => isMediaType(file.type);
+
+export const ingestFile = async (file: File, options: IngestOptions): Promise<MediaFile> => {
+  const isVideo = file.type.startsWith('video/');
+  const isImage = file.type.startsWith('image/');
+  if (!isVideo && !isImage) {
+    throw new Error("Please upload a valid image or video file.");
+  }
+
+  const isOversized = file.size > MAX_INLINE_SIZE;
+  const shouldSample = isVideo && (options.sampleVideos || isOversized);
+  // Validate size (approx 20MB limit for inline base64 safety in browser); images are checked after normalization
+  if (isVideo && isOversized && !shouldSample) {
+    throw new Error("File is too large. Please upload files smaller than 20MB for this demo.");
+  }
+
+  // 照片的 EXIF / XMP（含 GPS）在存進工作階段與送給模型之前就移除，除非使用者選擇保留
+  let source = file;
+  if (isImage && !options.keepGps) {
+    try {
+      source = await removeImageMetadata(file);
+    } catch (e) {
+      console.error("Error removing image metadata", e);
+      throw new Error("無法移除圖片的中繼資料 (Failed to strip image metadata)。可改用 JPEG / PNG / WebP，或勾選「保留 GPS 位置」後再上傳。");
+    }
+  }
+
+  const previewUrl = URL.createObjectURL(source);
+
+  // Keyframe sampling: send representative frames + duration/fps instead of the whole video
+  if (shouldSample) {
+    options.onSamplingProgress?.(0);
+    try {
+      const { keyframes, videoMeta } = await sampleVideoKeyframes(file, {
+        mode: options.samplingMode,
+        frameCount: options.frameCount,
+        onProgress: options.onSamplingProgress,
+      });
+      return { file, previewUrl, type: 'video', mimeType: file.type, keyframes, videoMeta };
+    } catch (e) {
+      console.error("Error sampling video", e);
+      URL.revokeObjectURL(previewUrl);
+      throw new Error("影片關鍵影格取樣失敗 (Failed to sample video frames).");
+    }
+  }
+
+  if (isVideo) {
+    try {
+      const { data, mimeType } = await fileToGenerativePart(file);
+      return { file, previewUrl, type: 'video', base64Data: data, mimeType };
+    } catch (e) {
+      console.error("Error processing file", e);
+      URL.revokeObjectURL(previewUrl);
+      throw new Error("Failed to process file.");
+    }
+  }
+
+  // 圖片先縮圖 / 轉正 / 重新編碼；file 與 previewUrl 保留全解析度檔案，拍攝資訊從原檔讀取
+  let normalized: NormalizedImage;
+  let camera: MediaFile['camera'];
+  try {
+    [normalized, camera] = await Promise.all([
+      normalizeImageFile(source),
+      parseCameraMetadata(file, { keepGps: options.keepGps }),
+    ]);
+  } catch (e) {
+    console.error("Error processing file", e);
+    URL.revokeObjectURL(previewUrl);
+    throw new Error("Failed to process file.");
+  }
+  if ((normalized.upload?.sentBytes ?? source.size) > MAX_INLINE_SIZE) {
+    URL.revokeObjectURL(previewUrl);
+    throw new Error("File is too large. Please upload files smaller than 20MB, or lower the upload long edge in Settings.");
+  }
+  return {
+    file: source,
+    previewUrl,
+    type: 'image',
+    base64Data: normalized.data,
+    mimeType: normalized.mimeType,
+    camera,
+    upload: normalized.upload,
+  };
+};
+
+// --- 網址 / data URL ---
+
+export const isMediaUrl = (text: string) => /^(https?:\/\/\S+|data:(image|video)\/[\w.+-]+;base64,)/i.test(text.trim());
+
+const fileNameFromUrl = (url: string, mimeType: string) => {
+  const extension = mimeType.split('/')[1]?.replace('jpeg', 'jpg').replace('quicktime', 'mov') || 'bin';
+  if (url.startsWith('data:')) return `pasted-${Date.now()}.${extension}`;
+  const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+  return name.includes('.') ? name : `${name || 'image'}.${extension}`;
+};
+
+export const fetchUrlAsFile = async (url: string): Promise<File> => {
+  const source = url.trim();
+  let response: Response;
+  try {
+    response = await fetch(source);
+  } catch {
+    // 多半是對方網站沒有開放 CORS
+    throw new Error("無法下載此網址，對方網站可能不允許跨網域讀取。請改為下載後上傳，或直接複製圖片貼上。");
+  }
+  if (!response.ok) throw new Error(`下載失敗 (HTTP ${response.status})。`);
+
+  const blob = await response.blob();
+  const extension = source.startsWith('data:') ? '' : new URL(source).pathname.split('.').pop()?.toLowerCase() ?? '';
+  const mimeType = isMediaType(blob.type) ? blob.type : EXTENSION_MIME_TYPES[extension];
+  if (!mimeType) throw new Error("此網址不是圖片或影片 (Not an image or video URL).");
+  return new File([blob], fileNameFromUrl(source, mimeType), { type: mimeType });
+};
+
+// --- 剪貼簿 ---
+
+// 優先取貼上的檔案；從網頁複製時可能只有網址或 <img> HTML
+export const filesFromClipboard = async (data: DataTransfer): Promise<File[]> => {
+  const files = Array.from(data.files).filter(isMediaFile);
+  if (files.length) return files;
+
+  const text = data.getData('text/plain').trim();
+  const imageSrc = new DOMParser().parseFromString(data.getData('text/html'), 'text/html').querySelector('img')?.src;
+  const url = isMediaUrl(text) ? text : imageSrc && isMediaUrl(imageSrc) ? imageSrc : null;
+  return url ? [await fetchUrlAsFile(url)] : [];
+};
+
+export const clipboardHasMedia = (data: DataTransfer) =>
+  Array.from(data.items).some(item => item.kind === 'file' && isMediaType(item.type)) ||
+  isMediaUrl(data.getData('text/plain')) ||
+  /<img\s/i.test(data.getData('text/html'));
+
+// --- 拖放（資料夾展開成多個檔案）---
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryToFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (!entry.isDirectory) return [];
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries 每次只回傳一批，直到回傳空陣列為止
+  for (let batch = await readEntries(reader); batch.length; batch = await readEntries(reader)) children.push(...batch);
+  const nested = await Promise.all(children.sort((a, b) => a.name.localeCompare(b.name)).map(entryToFiles));
+  return nested.flat();
+};
+
+export const filesFromDataTransfer = async (data: DataTransfer): Promise<File[]> => {
+  // entry 必須在事件處理當下同步取得，之後 DataTransfer 會失效
+  const entries = Array.from(data.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+  if (!entries.length || entries.some(entry => !entry)) {
+    return Array.from(data.files).filter(isMediaFile);
+  }
+  const files = await Promise.all((entries as FileSystemEntry[]).map(entryToFiles));
+  return files.flat().filter(isMediaFile);
+};
@@ -0,0 +1,77 @@
+// --- 共用的影像 / 影片載入 ---
+// 色彩分析、工作階段縮圖、上傳正規化與影片取樣都要先把素材畫到 canvas 上。
+// 損壞或不支援的檔案可能永遠不觸發 load / seeked，一律加上逾時。
+
+const LOAD_TIMEOUT_MS = 10000;
+const PREVIEW_FRAME_TIME_S = 0.5;
+
+const withTimeout = <T>(
+  start: (resolve: (value: T) => void, reject: (error: Error) => void) => () => void,
+  message: string
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    let cleanup = () => {};
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(message));
+    }, LOAD_TIMEOUT_MS);
+    cleanup = start(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  withTimeout<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("無法讀取圖片 (Image failed to load)"));
+    image.src = src;
+    return () => {
+      image.onload = image.onerror = null;
+      image.removeAttribute('src');
+    };
+  }, "讀取圖片逾時 (Image load timed out)");
+
+// 只等到第一格可解碼；取樣時再自行跳轉
+export const loadVideo = (src: string): Promise<HTMLVideoElement> =>
+  withTimeout<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("無法讀取影片 (Unsupported video)"));
+    video.src = src;
+    return () => {
+      video.onloadeddata = video.onerror = null;
+      video.removeAttribute('src');
+      video.load();
+    };
+  }, "讀取影片逾時 (Video load timed out)");
+
+// 取開頭附近的一格畫面（影片很短時取中間）
+export const loadVideoFrame = (src: string): Promise<HTMLVideoElement> =>
+  withTimeout<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => {
+      video.onseeked = () => resolve(video);
+      video.currentTime = Math.min(PREVIEW_FRAME_TIME_S, video.duration / 2 || 0);
+    };
+    video.onerror = () => reject(new Error("無法讀取影片 (Video failed to load)"));
+    video.src = src;
+    return () => {
+      video.onloadeddata = video.onseeked = video.onerror = null;
+      video.removeAttribute('src');
+      video.load();
+    };
+  }, "讀取影片逾時 (Video load timed out)");
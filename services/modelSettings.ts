@@ -0,0 +1,69 @@
+import { AIFeature } from "../types";
+
+// --- 各功能的模型與生成參數 ---
+// 便宜的任務（關鍵字、市場洞察）可改用較輕量的模型；設定存於 localStorage。
+
+export interface GenerationSettings {
+  model: string;
+  temperature?: number; // 未設定時使用模型預設值
+  maxOutputTokens?: number;
+}
+
+// 【關鍵修復】改用完整版本號，解決影片分析時的 404 錯誤
+export const DEFAULT_MODEL_ID = "gemini-3-pro-preview";
+
+// 與 Proxy 共用的模型白名單
+export { AVAILABLE_MODELS } from "./aiContracts.mjs";
+
+export const FEATURE_LABELS: Record<AIFeature, string> = {
+  'director-image': '導演 Image Prompt',
+  'director-refine': 'Image Prompt 修正',
+  'video-prompt': '導演 Video Prompt',
+  'video-refine': 'Video Prompt 修正',
+  'shot-list': '逐鏡頭拆解',
+  'match-score': '生成圖比對評分',
+  'storyboard': '多鏡頭分鏡腳本',
+  'wallpaper': '桌布風格融合',
+  'seo': 'SEO 套件',
+  'market-insights': '市場洞察',
+};
+
+const STORAGE_KEY = 'generation_settings';
+
+export const DEFAULT_GENERATION_SETTINGS: Record<AIFeature, GenerationSettings> = {
+  'director-image': { model: DEFAULT_MODEL_ID },
+  'director-refine': { model: DEFAULT_MODEL_ID },
+  'video-prompt': { model: DEFAULT_MODEL_ID },
+  'video-refine': { model: DEFAULT_MODEL_ID },
+  'shot-list': { model: DEFAULT_MODEL_ID },
+  'match-score': { model: DEFAULT_MODEL_ID },
+  'storyboard': { model: DEFAULT_MODEL_ID },
+  'wallpaper': { model: DEFAULT_MODEL_ID },
+  'seo': { model: DEFAULT_MODEL_ID },
+  'market-insights': { model: DEFAULT_MODEL_ID },
+};
+
+export const getAllGenerationSettings = (): Record<AIFeature, GenerationSettings> => {
+  try {
+    const stored: Partial<Record<AIFeature, GenerationSettings>> = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return Object.fromEntries(
+      Object.entries(DEFAULT_GENERATION_SETTINGS).map(([feature, defaults]) => [
+        feature,
+        { ...defaults, ...stored[feature as AIFeature] },
+      ])
+    ) as Record<AIFeature, GenerationSettings>;
+  } catch {
+    console.error("Failed to parse generation settings");
+    return { ...DEFAULT_GENERATION_SETTINGS };
+  }
+};
+
+export const getGenerationSettings = (feature: AIFeature): GenerationSettings => getAllGenerationSettings()[feature];
+
+export const saveGenerationSettings = (settings: Record<AIFeature, GenerationSettings>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const resetGenerationSettings = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
@@ -0,0 +1,37 @@
+// 從尚未完整的 JSON 串流中，取出頂層字串欄位目前已收到的內容
+// 例如 `{"analysis": "構圖採三分` → { analysis: "構圖採三分" }
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+
+const readPartialString = (text: string, start: number): string => {
+  let out = '';
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') break;
+    if (ch !== '\\') {
+      out += ch;
+      continue;
+    }
+    const next = text[i + 1];
+    if (next === undefined) break; // 跳脫字元被切在 chunk 邊界，等下一段
+    if (next === 'u') {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      out += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      out += ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return out;
+};
+
+export const extractPartialStringFields = <K extends string>(text: string, keys: readonly K[]): Partial<Record<K, string>> => {
+  const result: Partial<Record<K, string>> = {};
+  for (const key of keys) {
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(text);
+    if (match) result[key] = readPartialString(text, match.index + match[0].length);
+  }
+  return result;
+};
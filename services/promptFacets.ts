@@ -0,0 +1,24 @@
+import { PromptFacets } from "../types";
+
+// --- 結構化提示詞欄位 ---
+// 編輯任一欄位時，依固定順序在本地重組 prompt，不需再呼叫模型。
+
+export type FacetTextKey = Exclude<keyof PromptFacets, 'negative'>;
+
+export const FACET_FIELDS: { key: FacetTextKey; label: string }[] = [
+  { key: 'subject', label: '主體 (Subject)' },
+  { key: 'composition', label: '構圖 (Composition)' },
+  { key: 'camera', label: '鏡頭 (Camera / Lens)' },
+  { key: 'lighting', label: '光影 (Lighting)' },
+  { key: 'colorPalette', label: '色調 (Color Palette)' },
+  { key: 'style', label: '媒材風格 (Medium / Style)' },
+  { key: 'mood', label: '氛圍 (Mood)' },
+];
+
+export const composePromptFromFacets = (facets: PromptFacets): string =>
+  FACET_FIELDS.map(({ key }) => facets[key].trim().replace(/[,.\s]+$/, ''))
+    .filter(Boolean)
+    .join(', ');
+
+export const parseNegativeList = (text: string): string[] =>
+  text.split(',').map(item => item.trim()).filter(Boolean);
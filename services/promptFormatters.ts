@@ -0,0 +1,163 @@
+// --- 目標生成器格式化 ---
+// 同一個英文 prompt 依貼上的平台（Midjourney / SD / Flux / DALL·E）輸出對應語法，並強制長度上限。
+// 純本地轉換，不需再呼叫模型。
+
+export type PromptTarget = 'generic' | 'midjourney' | 'stable-diffusion' | 'flux' | 'dalle';
+
+export interface PromptFormatOptions {
+  width?: number;  // 參考素材尺寸，用於推算長寬比
+  height?: number;
+  negative?: string[]; // 額外的負面元素（SD negative prompt / 其他平台的 "no ..."）
+}
+
+export interface FormattedPrompt {
+  text: string;
+  negative?: string;
+  length: number;
+  limit: number;
+  unit: 'chars' | 'tokens';
+  truncated: boolean;
+}
+
+interface TargetSpec {
+  label: string;
+  limit: number;
+  unit: 'chars' | 'tokens';
+}
+
+export const PROMPT_TARGETS: Record<PromptTarget, TargetSpec> = {
+  'generic': { label: 'Generic', limit: 4000, unit: 'chars' },
+  'midjourney': { label: 'Midjourney', limit: 6000, unit: 'chars' },
+  'stable-diffusion': { label: 'Stable Diffusion / SDXL', limit: 75, unit: 'tokens' }, // CLIP 單段 77 tokens（含起訖符號）
+  'flux': { label: 'Flux', limit: 512, unit: 'tokens' },                             // T5 encoder
+  'dalle': { label: 'DALL·E', limit: 4000, unit: 'chars' },
+};
+
+const TARGET_STORAGE_KEY = 'prompt_target';
+
+const MJ_VERSION = '7';
+const MJ_ASPECT_RATIOS = ['1:1', '4:5', '5:4', '3:4', '4:3', '2:3', '3:2', '9:16', '16:9', '1:2', '2:1', '21:9'];
+const SD_PHRASE_WEIGHTS = [1.3, 1.2, 1.1]; // 越前面的片語越重要
+const SD_DEFAULT_NEGATIVE = ['lowres', 'blurry', 'jpeg artifacts', 'watermark', 'text', 'signature', 'deformed', 'bad anatomy', 'extra fingers'];
+
+export const getPromptTarget = (): PromptTarget => {
+  const stored = localStorage.getItem(TARGET_STORAGE_KEY);
+  return stored && stored in PROMPT_TARGETS ? stored as PromptTarget : 'generic';
+};
+
+export const setPromptTarget = (target: PromptTarget) => {
+  localStorage.setItem(TARGET_STORAGE_KEY, target);
+};
+
+// --- helpers ---
+
+// 去掉 Midjourney 參數 (--ar 16:9) 與 SD 權重語法 ((word:1.2))
+const stripSyntax = (prompt: string) =>
+  prompt
+    .replace(/\s--\w+(\s+[^\s-][^\s]*)?/g, '')
+    .replace(/\(([^():]+):[\d.]+\)/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const splitPhrases = (prompt: string) =>
+  prompt.split(/\s*[,;]\s*|\.\s+/).map(p => p.trim().replace(/\.$/, '')).filter(Boolean);
+
+// "no text" / "without people" 之類的片語移到負面提示
+const isNegativePhrase = (phrase: string) => /^(no|without|avoid)\s+/i.test(phrase);
+const toNegativeTerm = (phrase: string) => phrase.replace(/^(no|without|avoid)\s+/i, '');
+
+// CLIP / T5 token 粗估：單字與標點各算一個
+const estimateTokens = (text: string) => (text.match(/[A-Za-z0-9]+|[^\sA-Za-z0-9]/g) ?? []).length;
+
+const measure = (text: string, unit: 'chars' | 'tokens') => (unit === 'chars' ? text.length : estimateTokens(text));
+
+// 以片語為單位截斷，保留前面較重要的描述
+const fitPhrases = (phrases: string[], join: (phrases: string[]) => string, spec: TargetSpec) => {
+  let kept = phrases;
+  while (kept.length > 1 && measure(join(kept), spec.unit) > spec.limit) kept = kept.slice(0, -1);
+  return { text: join(kept), truncated: kept.length < phrases.length };
+};
+
+const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : a);
+
+// 取最接近的 Midjourney 常用比例
+export const toAspectRatio = (width?: number, height?: number): string | undefined => {
+  if (!width || !height) return undefined;
+  const ratio = width / height;
+  const nearest = MJ_ASPECT_RATIOS.reduce((best, candidate) => {
+    const [w, h] = candidate.split(':').map(Number);
+    const [bw, bh] = best.split(':').map(Number);
+    return Math.abs(w / h - ratio) < Math.abs(bw / bh - ratio) ? candidate : best;
+  });
+  const [w, h] = nearest.split(':').map(Number);
+  if (Math.abs(w / h - ratio) < 0.02) return nearest;
+  const divisor = gcd(width, height);
+  return `${width / divisor}:${height / divisor}`;
+};
+
+const sentence = (text: string) => (text ? text.charAt(0).toUpperCase() + text.slice(1).replace(/[.,;\s]*$/, '.') : '');
+
+const orientationHint = (width?: number, height?: number) => {
+  if (!width || !height) return '';
+  const ratio = width / height;
+  if (ratio > 1.15) return 'Wide landscape composition.';
+  if (ratio < 0.87) return 'Tall portrait composition.';
+  return 'Square composition.';
+};
+
+// --- formatters ---
+
+export const formatPromptForTarget = (prompt: string, target: PromptTarget, options: PromptFormatOptions = {}): FormattedPrompt => {
+  const spec = PROMPT_TARGETS[target];
+  const phrases = splitPhrases(stripSyntax(prompt));
+  const positive = phrases.filter(p => !isNegativePhrase(p));
+  const negative = [...phrases.filter(isNegativePhrase).map(toNegativeTerm), ...(options.negative ?? [])];
+
+  const finish = (fitted: { text: string; truncated: boolean }, negativeText?: string): FormattedPrompt => ({
+    text: fitted.text,
+    negative: negativeText,
+    length: measure(fitted.text, spec.unit),
+    limit: spec.limit,
+    unit: spec.unit,
+    truncated: fitted.truncated,
+  });
+
+  switch (target) {
+    case 'midjourney': {
+      const ar = toAspectRatio(options.width, options.height);
+      const params = [ar && `--ar ${ar}`, '--style raw', `--v ${MJ_VERSION}`, negative.length ? `--no ${negative.join(', ')}` : '']
+        .filter(Boolean)
+        .join(' ');
+      return finish(fitPhrases(positive, kept => `${kept.join(', ')} ${params}`, spec));
+    }
+    case 'stable-diffusion': {
+      const weighted = (kept: string[]) =>
+        kept.map((p, i) => (SD_PHRASE_WEIGHTS[i] ? `(${p}:${SD_PHRASE_WEIGHTS[i]})` : p)).join(', ');
+      const negativeText = [...new Set([...negative, ...SD_DEFAULT_NEGATIVE])].join(', ');
+      return finish(fitPhrases(positive, weighted, spec), negativeText);
+    }
+    case 'flux': {
+      // 自然語言：第一個片語當主句，其餘串成描述句
+      const prose = (kept: string[]) => {
+        const [lead, ...rest] = kept;
+        const detail = rest.length > 1 ? `${rest.slice(0, -1).join(', ')} and ${rest[rest.length - 1]}` : rest[0] ?? '';
+        const avoid = negative.length ? ` Avoid ${negative.join(', ')}.` : '';
+        return `${sentence(lead ?? '')}${detail ? ` ${sentence(detail)}` : ''}${avoid}`;
+      };
+      return finish(fitPhrases(positive, prose, spec));
+    }
+    case 'dalle': {
+      const hint = orientationHint(options.width, options.height);
+      const describe = (kept: string[]) => {
+        const avoid = negative.length ? ` Do not include ${negative.join(', ')}.` : '';
+        return `${sentence(kept.join(', '))}${hint ? ` ${hint}` : ''}${avoid}`;
+      };
+      return finish(fitPhrases(positive, describe, spec));
+    }
+    default:
+      // 原樣輸出，只在超過上限時截斷
+      return measure(prompt, spec.unit) <= spec.limit
+        ? finish({ text: prompt, truncated: false })
+        : finish(fitPhrases(phrases, kept => kept.join(', '), spec));
+  }
+};
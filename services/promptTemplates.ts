@@ -0,0 +1,142 @@
+// --- 提示詞模板庫 ---
+// 所有 system instruction 集中於此，支援具名變數 {{date}} {{language}} {{keywordCount}} {{platform}}。
+// 團隊可在設定畫面編輯（存於 localStorage），每次儲存都會遞增 revision；結果會記錄使用的模板版本。
+// 預設內容定義在 aiContracts.mjs，與 Proxy 共用；經由 Proxy 呼叫時伺服器一律使用預設模板。
+
+import { AnalysisLanguage } from "../types";
+import { ANALYSIS_LANGUAGES, DEFAULT_PROMPT_TEMPLATES, DEFAULT_PROMPT_VARIABLES, renderPromptBody } from "./aiContracts.mjs";
+import { getActiveProviderId } from "./aiProvider";
+
+export { ANALYSIS_LANGUAGES, DEFAULT_PROMPT_TEMPLATES, DEFAULT_PROMPT_VARIABLES };
+
+export type PromptTemplateId =
+  | 'market-brain'
+  | 'stocksensei'
+  | 'visual-director'
+  | 'refine-director'
+  | 'motion-director'
+  | 'motion-refine-director'
+  | 'shot-director'
+  | 'match-judge'
+  | 'storyboard-director'
+  | 'wallpaper-director';
+
+export interface PromptVariables {
+  date: string;
+  language: string;
+  keywordCount: string;
+  platform: string;
+}
+
+// date 自動填入當天，language 由分析語言設定決定
+export type EditablePromptVariables = Omit<PromptVariables, 'date' | 'language'>;
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  name: string;
+  version: number; // 預設內容的版本，改寫預設文案時遞增
+  body: string;
+}
+
+export interface ResolvedPromptTemplate extends PromptTemplate {
+  revision: number; // 0 = 預設內容，>0 = 團隊自訂的第 N 次修改
+  updatedAt?: number;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  templateId: PromptTemplateId;
+  templateVersion: string;
+  variables: PromptVariables; // Proxy 依此在伺服器端重新組出 system instruction
+}
+
+interface TemplateOverride {
+  body: string;
+  revision: number;
+  updatedAt: number;
+}
+
+const TEMPLATE_STORAGE_KEY = 'prompt_templates';
+const VARIABLE_STORAGE_KEY = 'prompt_variables';
+const LANGUAGE_STORAGE_KEY = 'analysis_language';
+
+export const PROMPT_VARIABLE_NAMES: (keyof PromptVariables)[] = ['date', 'language', 'keywordCount', 'platform'];
+
+export const DEFAULT_ANALYSIS_LANGUAGE: AnalysisLanguage = 'zh-TW';
+
+const loadOverrides = (): Partial<Record<PromptTemplateId, TemplateOverride>> => {
+  try {
+    return JSON.parse(localStorage.getItem(TEMPLATE_STORAGE_KEY) || '{}');
+  } catch {
+    console.error("Failed to parse prompt templates");
+    return {};
+  }
+};
+
+export const getPromptTemplate = (id: PromptTemplateId): ResolvedPromptTemplate => {
+  const base = DEFAULT_PROMPT_TEMPLATES[id];
+  const override = loadOverrides()[id];
+  return override
+    ? { ...base, body: override.body, revision: override.revision, updatedAt: override.updatedAt }
+    : { ...base, revision: 0 };
+};
+
+export const getPromptTemplates = (): ResolvedPromptTemplate[] =>
+  (Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateId[]).map(getPromptTemplate);
+
+export const savePromptTemplate = (id: PromptTemplateId, body: string): ResolvedPromptTemplate => {
+  const overrides = loadOverrides();
+  const revision = (overrides[id]?.revision ?? 0) + 1;
+  overrides[id] = { body, revision, updatedAt: Date.now() };
+  localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(overrides));
+  return getPromptTemplate(id);
+};
+
+export const restoreDefaultTemplate = (id: PromptTemplateId): ResolvedPromptTemplate => {
+  const overrides = loadOverrides();
+  delete overrides[id];
+  localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(overrides));
+  return getPromptTemplate(id);
+};
+
+export const getPromptVariables = (): EditablePromptVariables => {
+  try {
+    // 舊版把 language 存在變數裡，現改由分析語言設定決定
+    const { language: _legacy, ...stored } = JSON.parse(localStorage.getItem(VARIABLE_STORAGE_KEY) || '{}');
+    return { ...DEFAULT_PROMPT_VARIABLES, ...stored };
+  } catch {
+    return { ...DEFAULT_PROMPT_VARIABLES };
+  }
+};
+
+export const savePromptVariables = (variables: EditablePromptVariables) => {
+  localStorage.setItem(VARIABLE_STORAGE_KEY, JSON.stringify(variables));
+};
+
+export const getAnalysisLanguage = (): AnalysisLanguage => {
+  const stored = localStorage.getItem(LANGUAGE_STORAGE_KEY);
+  return stored && stored in ANALYSIS_LANGUAGES ? stored as AnalysisLanguage : DEFAULT_ANALYSIS_LANGUAGE;
+};
+
+export const setAnalysisLanguage = (language: AnalysisLanguage) => {
+  localStorage.setItem(LANGUAGE_STORAGE_KEY, language);
+};
+
+// e.g. "visual-director@v1" / "visual-director@v1.r3"（團隊第 3 次修改）
+export const formatTemplateVersion = (template: Pick<ResolvedPromptTemplate, 'id' | 'version' | 'revision'>): string =>
+  `${template.id}@v${template.version}${template.revision ? `.r${template.revision}` : ''}`;
+
+// Proxy 在伺服器端只用預設模板，這裡也以預設內容記錄版本與快取鍵，結果才對得上實際送出的文案
+export const renderPromptTemplate = (id: PromptTemplateId, overrides: Partial<PromptVariables> = {}): RenderedPrompt => {
+  const template: ResolvedPromptTemplate = getActiveProviderId() === 'proxy'
+    ? { ...DEFAULT_PROMPT_TEMPLATES[id], revision: 0 }
+    : getPromptTemplate(id);
+  const variables: PromptVariables = {
+    date: new Date().toISOString().split('T')[0],
+    language: ANALYSIS_LANGUAGES[getAnalysisLanguage()].promptName,
+    ...getPromptVariables(),
+    ...overrides,
+  };
+  const text = renderPromptBody(template.body, { ...variables });
+  return { text, templateId: id, templateVersion: formatTemplateVersion(template), variables };
+};
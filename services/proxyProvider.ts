@@ -0,0 +1,56 @@
+import type { AIProvider, AIRequest, AIStreamChunk } from "./aiProvider";
+import { AIProxyError } from "./aiErrors";
+import { AI_ROUTES } from "./aiContracts.mjs";
+
+// 經由自架 Proxy (server/proxy.mjs) 呼叫 Gemini，金鑰只存在伺服器端
+// system instruction 與 Schema 由伺服器依路由組出，這裡只送 Schema id 與模板變數
+
+export const getProxyBaseUrl = (): string | undefined =>
+  import.meta.env.VITE_AI_PROXY_URL?.replace(/\/+$/, '') || undefined;
+
+const postToProxy = async ({ feature, model, contents, schemaId, promptVariables, temperature, maxOutputTokens, signal }: AIRequest, stream: boolean) => {
+  const baseUrl = getProxyBaseUrl();
+  if (!baseUrl) throw new Error("尚未設定 VITE_AI_PROXY_URL");
+
+  const response = await fetch(`${baseUrl}${AI_ROUTES[feature].path}${stream ? '/stream' : ''}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model, contents, schemaId, promptVariables, temperature, maxOutputTokens }),
+    signal,
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new AIProxyError(response.status, body?.error || response.statusText);
+  }
+  return response;
+};
+
+export const proxyProvider: AIProvider = {
+  id: 'proxy',
+  label: 'Proxy Server',
+  generateContent: async (request) => {
+    const response = await postToProxy(request, false);
+    return response.json();
+  },
+  generateContentStream: async function* (request) {
+    const response = await postToProxy(request, true);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // NDJSON：逐行解析
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop()!;
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const chunk: AIStreamChunk & { error?: string; status?: number } = JSON.parse(line);
+        if (chunk.error) throw new AIProxyError(chunk.status ?? 502, chunk.error);
+        yield { text: chunk.text, usage: chunk.usage };
+      }
+      if (done) return;
+    }
+  },
+};
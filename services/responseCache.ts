@@ -0,0 +1,78 @@
+import { AIFeature, AIProviderId } from "../types";
+import type { AIRequest } from "./aiProvider";
+import { idbClear, idbDelete, idbGet, idbGetAll, idbPut } from "./idb";
+
+// --- 回應快取 ---
+// 以「媒體內容 + 功能 + 參數 + 模板版本 + 模型與生成參數」的 SHA-256 為 key，
+// 同樣的素材重複送出時直接回傳已驗證的結果，不再重新計費。
+
+export interface CacheEntry<T = unknown> {
+  key: string;
+  feature: AIFeature;
+  provider: AIProviderId;
+  model: string;
+  templateVersion?: string;
+  value: T;
+  sizeBytes: number;
+  createdAt: number;
+  lastHitAt?: number;
+  hits: number;
+}
+
+const ENABLED_STORAGE_KEY = 'response_cache_enabled';
+
+export const isCacheEnabled = (): boolean => localStorage.getItem(ENABLED_STORAGE_KEY) !== 'false';
+
+export const setCacheEnabled = (enabled: boolean) => {
+  localStorage.setItem(ENABLED_STORAGE_KEY, String(enabled));
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+export const computeCacheKey = async (request: AIRequest, provider: AIProviderId): Promise<string> => {
+  const { feature, model, temperature, maxOutputTokens, contents, systemInstruction, responseSchema, templateVersion } = request;
+  const source = JSON.stringify({ provider, feature, model, temperature, maxOutputTokens, templateVersion, systemInstruction, responseSchema, contents });
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source)));
+};
+
+export const getCachedResponse = async <T>(key: string): Promise<CacheEntry<T> | undefined> => {
+  try {
+    const entry = await idbGet<CacheEntry<T>>('responseCache', key);
+    if (entry) {
+      await idbPut('responseCache', { ...entry, hits: entry.hits + 1, lastHitAt: Date.now() });
+    }
+    return entry;
+  } catch (e) {
+    console.warn("Response cache read failed", e);
+    return undefined;
+  }
+};
+
+export const putCachedResponse = async <T>(key: string, request: AIRequest, provider: AIProviderId, value: T) => {
+  try {
+    const entry: CacheEntry<T> = {
+      key,
+      feature: request.feature,
+      provider,
+      model: request.model,
+      templateVersion: request.templateVersion,
+      value,
+      sizeBytes: new Blob([JSON.stringify(value)]).size,
+      createdAt: Date.now(),
+      hits: 0,
+    };
+    await idbPut('responseCache', entry);
+  } catch (e) {
+    console.warn("Response cache write failed", e);
+  }
+};
+
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  const entries = await idbGetAll<CacheEntry>('responseCache');
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCacheEntry = (key: string) => idbDelete('responseCache', key);
+
+export const clearResponseCache = () => idbClear('responseCache');
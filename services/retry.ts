@@ -0,0 +1,62 @@
+import { AIAbortError, AITimeoutError } from "./aiErrors";
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15000;
+
+// 可重試：429 (Rate Limit)、5xx (伺服器忙碌)、網路中斷
+export const isRetryableError = (error: any): boolean => {
+  if (error instanceof AIAbortError || error instanceof AITimeoutError) return false;
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  if (status !== undefined) return status === 429 || status === 500 || status === 502 || status === 503 || status === 504;
+  const message = String(error?.message || '');
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|Failed to fetch|fetch failed|NetworkError/i.test(message);
+};
+
+// 可被中斷的等待
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// 合併使用者的取消訊號與逾時，abort reason 會是 AIAbortError 或 AITimeoutError
+export const createCallSignal = (signal: AbortSignal | undefined, timeoutMs: number) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new AITimeoutError(timeoutMs)), timeoutMs);
+  const onAbort = () => controller.abort(new AIAbortError());
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+};
+
+// 指數退避重試 (1s, 2s, 4s… + jitter)
+export const withRetry = async <T>(task: () => Promise<T>, signal: AbortSignal, label: string): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error: any) {
+      if (signal.aborted) throw signal.reason;
+      if (attempt >= MAX_RETRIES || !isRetryableError(error)) throw error;
+
+      const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt) + Math.random() * 250;
+      console.warn(`[${label}] retryable error, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`, error);
+      await sleep(delay, signal);
+    }
+  }
+};
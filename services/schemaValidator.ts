@@ -0,0 +1,67 @@
+import { Schema, Type } from "@google/genai";
+
+// 依照送給模型的 responseSchema 做執行期驗證，回傳問題清單（空陣列代表通過）
+export const validateAgainstSchema = (value: unknown, schema: Schema, path = '$'): string[] => {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} is missing`];
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path} should be an object`];
+      const record = value as Record<string, unknown>;
+      const issues: string[] = [];
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) issues.push(`${path}.${key} is required`);
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        if (record[key] === undefined) continue;
+        const isRequired = schema.required?.includes(key) ?? false;
+        // 選填欄位缺值或空字串都可接受（例如沒有 title），不值得再花一次修復呼叫
+        const childPath = `${path}.${key}`;
+        issues.push(...validateAgainstSchema(record[key], propertySchema, childPath)
+          .filter(issue => isRequired || !(issue.endsWith('is missing') || issue === `${childPath} should not be empty`)));
+      }
+      return issues;
+    }
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      const issues: string[] = [];
+      if (schema.minItems && value.length < Number(schema.minItems)) {
+        issues.push(`${path} should have at least ${schema.minItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, i) => issues.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`)));
+      }
+      return issues;
+    }
+    case Type.STRING:
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      if (!value.trim()) return [`${path} should not be empty`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} should be one of ${schema.enum.join(', ')}`];
+      return [];
+    case Type.NUMBER:
+    case Type.INTEGER:
+      if (typeof value !== 'number' || Number.isNaN(value)) return [`${path} should be a number`];
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) return [`${path} should be an integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} should be >= ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} should be <= ${schema.maximum}`];
+      return [];
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path} should be a boolean`];
+    default:
+      return [];
+  }
+};
+
+// 解析 JSON 並驗證；失敗時回傳問題清單
+export const parseAndValidate = <T>(text: string, schema: Schema): { value?: T; issues: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { issues: [text.trim() ? 'response is not valid JSON' : 'response is empty'] };
+  }
+  const issues = validateAgainstSchema(parsed, schema);
+  return issues.length ? { issues } : { value: parsed as T, issues };
+};
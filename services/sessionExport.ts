@@ -0,0 +1,539 @@
+import { DirectorPhase, MediaFile, ResultVersion, SessionAssets, VersionOrigin } from "../types";
+import { SessionSnapshot, createSessionId, createSessionThumbnail, restorePreview } from "./sessionStore";
+import { storyboardToText, withContinuity } from "./storyboard";
+import { describeCameraMetadata } from "./cameraMetadata";
+import { removeImageMetadata } from "./imageNormalizer";
+
+// --- 工作階段匯出 / 匯入 ---
+// Markdown / HTML 報告給客戶交付；JSON 保留完整歷史樹與素材，可再匯入繼續工作。
+
+const EXPORT_FORMAT = 'decode-ai-session';
+const EXPORT_VERSION = 1;
+
+// 取樣影片沒有 base64，原始檔在此大小內才一併匯出
+const MAX_EMBEDDED_FILE_BYTES = 50 * 1024 * 1024;
+const REPORT_IMAGE_SIZE = 480;
+
+const ORIGIN_LABELS: Record<VersionOrigin, string> = {
+  'generate': 'Initial analysis',
+  'refine': 'Refinement',
+  'image-to-video': 'Video prompt',
+  'storyboard': 'Storyboard',
+  'edit': 'Manual edit',
+};
+
+const PHASE_LABELS: Record<DirectorPhase, string> = {
+  'image-prompt': 'Image prompt',
+  'video-prompt': 'Video prompt',
+  'storyboard': 'Storyboard',
+};
+
+type AssetKey = keyof SessionAssets;
+const ASSET_KEYS: AssetKey[] = ['generatedImage', 'badResultImage', 'badResultVideo'];
+
+// 匯出的媒體以 id 參照，同一份素材只存一次
+interface ExportedMedia extends Omit<MediaFile, 'file' | 'previewUrl'> {
+  fileName?: string;
+  fileType?: string;
+  fileData?: string; // base64，沒有 base64Data 或 base64Data 為縮圖版本時使用
+}
+
+interface ExportedVersion extends Omit<ResultVersion, 'badResult' | 'generatedImage'> {
+  badResult?: string;
+  generatedImage?: string;
+}
+
+interface SessionExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: {
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    thumbnail?: string;
+    activeVersionId: string | null;
+    references: string[];
+    versions: ExportedVersion[];
+    assets: Partial<Record<AssetKey, string>>;
+  };
+  media: Record<string, ExportedMedia>;
+}
+
+// --- helpers ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// 縮圖只接受 canvas 產生的點陣 data URL；匯入檔裡的其他網址可能藏有腳本或追蹤連結
+const SAFE_IMAGE_DATA_URL = /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+const isSafeImageDataUrl = (url: string | undefined): url is string => !!url && SAFE_IMAGE_DATA_URL.test(url);
+
+// 內容本身含 ``` 時，圍欄要比最長的反引號串更長才不會提早結束
+const markdownFence = (text: string, language = 'text') => {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  return [`${fence}${language}`, text, fence];
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const base64ToFile = (data: string, name: string, type: string) => {
+  const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  return new File([bytes], name, { type });
+};
+
+// 表格儲存格內的 | 與換行會打斷 Markdown 表格
+const markdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+const safeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'session';
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const versionNumber = (session: SessionSnapshot, id: string | null | undefined) =>
+  session.versions.findIndex(v => v.id === id) + 1;
+
+// 核准（成功）的生成圖：Video / Storyboard 節點所依據的圖片，不重複
+const approvedImages = (session: SessionSnapshot): MediaFile[] =>
+  [...new Set(session.versions.map(v => v.generatedImage).filter((m): m is MediaFile => !!m))];
+
+const mediaSummary = (references: MediaFile[]) =>
+  references
+    .map(media => {
+      const meta = media.videoMeta;
+      return `${media.type}${media.file?.name ? ` "${media.file.name}"` : ''}${meta ? ` (${meta.width}x${meta.height}, ${meta.duration.toFixed(1)}s)` : ''}${media.camera ? ` [${describeCameraMetadata(media.camera)}]` : ''}`;
+    })
+    .join(', ');
+
+// --- JSON ---
+
+// 舊版工作階段存的是未移除 EXIF / XMP 的原檔，附上前再移除一次；
+// 只有使用者選擇保留 GPS（camera.gps 存在）的照片維持原檔。無法移除時不附原檔，只匯出送出的版本。
+const exportableFile = async (item: MediaFile, file: File): Promise<File | undefined> => {
+  if (item.type !== 'image' || item.camera?.gps) return file;
+  try {
+    return await removeImageMetadata(file);
+  } catch (e) {
+    console.warn("Failed to strip metadata for export, skipping the original file", e);
+    return undefined;
+  }
+};
+
+export const exportSessionJson = async (session: SessionSnapshot): Promise<string> => {
+  const ids = new Map<MediaFile, string>();
+  const media: Record<string, ExportedMedia> = {};
+
+  const ref = async (item: MediaFile) => {
+    if (!ids.has(item)) {
+      const id = `m${ids.size + 1}`;
+      ids.set(item, id);
+      const { file, previewUrl: _previewUrl, ...rest } = item;
+      // 上傳時縮過圖的素材另外附上原始全解析度檔案
+      const embedFile = file && (!item.base64Data || item.upload) && file.size <= MAX_EMBEDDED_FILE_BYTES
+        ? await exportableFile(item, file)
+        : undefined;
+      media[id] = {
+        ...rest,
+        fileName: (embedFile ?? file)?.name,
+        fileType: (embedFile ?? file)?.type,
+        fileData: embedFile ? await blobToBase64(embedFile) : undefined,
+      };
+    }
+    return ids.get(item)!;
+  };
+  const refOptional = async (item: MediaFile | null | undefined) => (item ? ref(item) : undefined);
+
+  const references: string[] = [];
+  for (const item of session.references) references.push(await ref(item));
+
+  const versions: ExportedVersion[] = [];
+  for (const version of session.versions) {
+    versions.push({
+      ...version,
+      badResult: await refOptional(version.badResult),
+      generatedImage: await refOptional(version.generatedImage),
+    });
+  }
+
+  const assets: Partial<Record<AssetKey, string>> = {};
+  for (const key of ASSET_KEYS) assets[key] = await refOptional(session.assets[key]);
+
+  const file: SessionExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      name: session.name,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      thumbnail: session.thumbnail,
+      activeVersionId: session.activeVersionId,
+      references,
+      versions,
+      assets,
+    },
+    media,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// --- 匯入檔驗證 ---
+// 匯入檔可能被手動修改或來自其他版本，寫進 IndexedDB 前先檢查結構與型別，回傳問題清單
+
+type Check = (value: unknown, path: string) => string[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const string: Check = (value, path) => (typeof value === 'string' ? [] : [`${path} should be a string`]);
+const number: Check = (value, path) => (typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} should be a number`]);
+const base64: Check = (value, path) =>
+  typeof value === 'string' && /^[A-Za-z0-9+/]*={0,2}$/.test(value) ? [] : [`${path} should be base64 data`];
+const mediaMimeType: Check = (value, path) =>
+  typeof value === 'string' && /^(image|video)\/[\w.+-]+$/.test(value) ? [] : [`${path} should be an image or video MIME type`];
+const imageDataUrl: Check = (value, path) =>
+  typeof value === 'string' && isSafeImageDataUrl(value) ? [] : [`${path} should be a PNG / JPEG / WebP data URL`];
+const oneOf = (values: readonly string[]): Check => (value, path) =>
+  typeof value === 'string' && values.includes(value) ? [] : [`${path} should be one of ${values.join(', ')}`];
+const optional = (check: Check): Check => (value, path) => (value === undefined ? [] : check(value, path));
+const nullable = (check: Check): Check => (value, path) => (value === null ? [] : check(value, path));
+const arrayOf = (check: Check): Check => (value, path) =>
+  Array.isArray(value) ? value.flatMap((item, i) => check(item, `${path}[${i}]`)) : [`${path} should be an array`];
+const shape = (fields: Record<string, Check>): Check => (value, path) =>
+  isRecord(value) ? Object.entries(fields).flatMap(([key, check]) => check(value[key], `${path}.${key}`)) : [`${path} should be an object`];
+
+const mediaCheck = shape({
+  type: oneOf(['image', 'video', 'text']),
+  base64Data: optional(base64),
+  mimeType: optional(mediaMimeType),
+  textContent: optional(string),
+  keyframes: optional(arrayOf(shape({ time: number, mimeType: mediaMimeType, base64Data: base64 }))),
+  videoMeta: optional(shape({ duration: number, fps: optional(number), width: number, height: number, samplingMode: oneOf(['scene', 'interval']) })),
+  role: optional(oneOf(['all', 'style', 'composition', 'subject'])),
+  weight: optional(number),
+  stats: optional(shape({
+    palette: arrayOf(shape({ hex: string, rgb: arrayOf(number), proportion: number })),
+    brightness: number,
+    contrast: number,
+    saturation: number,
+    lumaHistogram: arrayOf(number),
+    saturationHistogram: arrayOf(number),
+  })),
+  camera: optional(shape({
+    make: optional(string),
+    model: optional(string),
+    lens: optional(string),
+    focalLength: optional(number),
+    focalLength35mm: optional(number),
+    aperture: optional(number),
+    exposureTime: optional(number),
+    iso: optional(number),
+    capturedAt: optional(string),
+    orientation: optional(number),
+    gps: optional(shape({ latitude: number, longitude: number })),
+  })),
+  upload: optional(shape({
+    originalBytes: number,
+    originalWidth: number,
+    originalHeight: number,
+    sentBytes: number,
+    width: number,
+    height: number,
+    mimeType: mediaMimeType,
+    orientation: number,
+  })),
+  fileName: optional(string),
+  fileType: optional(mediaMimeType),
+  fileData: optional(base64),
+});
+
+// 圖片 / 影片至少要有一份可送出或可預覽的資料
+const mediaContentCheck: Check = (value, path) =>
+  isRecord(value) && value.type !== 'text' && !value.base64Data && !value.fileData && !(Array.isArray(value.keyframes) && value.keyframes.length)
+    ? [`${path} has no media data`]
+    : [];
+
+const resultCheck = shape({
+  title: optional(string),
+  analysis: string,
+  prompt: string,
+  facets: optional(shape({ negative: arrayOf(string) })),
+  shots: optional(arrayOf(shape({
+    start: number,
+    end: number,
+    shotSize: string,
+    cameraMovement: string,
+    imagePrompt: string,
+    motionPrompt: string,
+  }))),
+  storyboard: optional(shape({
+    continuity: shape({ character: string, wardrobe: string, lighting: string, timeOfDay: string }),
+    shots: arrayOf(shape({
+      id: string,
+      duration: number,
+      shotSize: string,
+      cameraMovement: string,
+      description: string,
+      imagePrompt: string,
+      motionPrompt: string,
+    })),
+  })),
+});
+
+const sessionCheck = shape({
+  name: string,
+  createdAt: number,
+  updatedAt: number,
+  thumbnail: optional(imageDataUrl),
+  activeVersionId: nullable(string),
+  references: arrayOf(string),
+  versions: arrayOf(shape({
+    id: string,
+    parentId: nullable(string),
+    phase: oneOf(Object.keys(PHASE_LABELS)),
+    origin: oneOf(Object.keys(ORIGIN_LABELS)),
+    result: resultCheck,
+    feedback: optional(string),
+    badResult: optional(string),
+    generatedImage: optional(string),
+    createdAt: number,
+  })),
+  assets: shape(Object.fromEntries(ASSET_KEYS.map(key => [key, optional(string)]))),
+});
+
+const validateExportFile = (file: SessionExportFile): string[] => [
+  ...sessionCheck(file.session, '$.session'),
+  ...(isRecord(file.media)
+    ? Object.entries(file.media).flatMap(([id, media]) => [...mediaCheck(media, `$.media.${id}`), ...mediaContentCheck(media, `$.media.${id}`)])
+    : ['$.media should be an object']),
+];
+
+const MAX_REPORTED_ISSUES = 5;
+
+// 匯入後給新 id，不覆蓋既有的工作階段
+export const importSessionJson = (text: string): SessionSnapshot => {
+  let parsed: SessionExportFile;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("檔案不是有效的 JSON (Invalid JSON file).");
+  }
+  if (parsed?.format !== EXPORT_FORMAT || !parsed.session || !parsed.media) {
+    throw new Error("不是 DeCode AI 工作階段檔 (Not a DeCode AI session export).");
+  }
+  if (parsed.version > EXPORT_VERSION) {
+    throw new Error(`匯出格式版本 ${parsed.version} 較新，請更新程式後再匯入。`);
+  }
+  const issues = validateExportFile(parsed);
+  if (issues.length) {
+    const more = issues.length > MAX_REPORTED_ISSUES ? `\n…另有 ${issues.length - MAX_REPORTED_ISSUES} 個問題` : '';
+    throw new Error(`匯入檔格式不正確 (Invalid session export):\n${issues.slice(0, MAX_REPORTED_ISSUES).join('\n')}${more}`);
+  }
+
+  const restored = new Map<string, MediaFile>();
+  const resolve = (id: string | undefined): MediaFile | undefined => {
+    if (!id) return undefined;
+    if (!restored.has(id)) {
+      const exported = parsed.media[id];
+      if (!exported) throw new Error(`匯入檔缺少素材 ${id} (Missing media).`);
+      const { fileName, fileType, fileData, ...rest } = exported;
+      const file = fileData ? base64ToFile(fileData, fileName ?? id, fileType ?? rest.mimeType ?? '') : undefined;
+      restored.set(id, restorePreview({ ...rest, file }));
+    }
+    return restored.get(id);
+  };
+
+  const { session } = parsed;
+  const references = session.references.map(id => resolve(id)!);
+  if (!references.length) throw new Error("匯入檔沒有參考素材 (No reference media).");
+
+  return {
+    id: createSessionId(),
+    name: session.name,
+    createdAt: session.createdAt,
+    updatedAt: Date.now(),
+    thumbnail: session.thumbnail,
+    activeVersionId: session.activeVersionId,
+    references,
+    versions: session.versions.map(version => ({
+      ...version,
+      badResult: resolve(version.badResult),
+      generatedImage: resolve(version.generatedImage),
+    })),
+    assets: {
+      generatedImage: resolve(session.assets.generatedImage) ?? null,
+      badResultImage: resolve(session.assets.badResultImage) ?? null,
+      badResultVideo: resolve(session.assets.badResultVideo) ?? null,
+    },
+  };
+};
+
+// --- Markdown ---
+
+export const exportSessionMarkdown = async (session: SessionSnapshot): Promise<string> => {
+  const approved = approvedImages(session);
+  const approvedThumbs = new Map<MediaFile, string | undefined>();
+  for (const image of approved) approvedThumbs.set(image, await createSessionThumbnail(image, REPORT_IMAGE_SIZE));
+
+  const lines: string[] = [
+    `# ${session.name}`,
+    '',
+    `Exported ${new Date().toLocaleString()} · ${session.versions.length} versions` +
+      (session.activeVersionId ? ` · Current: v${versionNumber(session, session.activeVersionId)}` : ''),
+    '',
+  ];
+  if (isSafeImageDataUrl(session.thumbnail)) lines.push(`![Reference](${session.thumbnail})`, '');
+  lines.push(`**Reference:** ${mediaSummary(session.references)}`, '');
+
+  lines.push('## Versions', '');
+  session.versions.forEach((version, i) => {
+    const { result } = version;
+    lines.push(`### v${i + 1} · ${ORIGIN_LABELS[version.origin]} · ${PHASE_LABELS[version.phase]}`, '');
+    const meta = [
+      version.parentId && `from v${versionNumber(session, version.parentId)}`,
+      new Date(version.createdAt).toLocaleString(),
+      result.meta?.templateVersion,
+    ].filter(Boolean);
+    lines.push(`_${meta.join(' · ')}_`, '');
+    if (version.feedback) lines.push(`> Feedback: ${version.feedback.replace(/\n/g, '\n> ')}`, '');
+    if (version.badResult) lines.push(`> A rejected ${version.badResult.type} was attached to this feedback.`, '');
+    const thumb = version.generatedImage && approvedThumbs.get(version.generatedImage);
+    if (isSafeImageDataUrl(thumb) && version.origin === 'image-to-video') lines.push(`![Approved image](${thumb})`, '');
+    lines.push('**Analysis**', '', result.analysis, '', '**Prompt**', '', ...markdownFence(result.prompt), '');
+    if (result.facets?.negative.length) lines.push(`**Negative:** ${result.facets.negative.join(', ')}`, '');
+    if (result.storyboard) lines.push('**Storyboard**', '', ...markdownFence(storyboardToText(result.storyboard)), '');
+    if (result.shots?.length) {
+      lines.push('| # | Time | Shot | Image prompt | Motion prompt |', '| --- | --- | --- | --- | --- |');
+      result.shots.forEach((shot, n) =>
+        lines.push(`| ${n + 1} | ${shot.start.toFixed(1)}–${shot.end.toFixed(1)}s | ${markdownCell(`${shot.shotSize}, ${shot.cameraMovement}`)} | ${markdownCell(shot.imagePrompt)} | ${markdownCell(shot.motionPrompt)} |`)
+      );
+      lines.push('');
+    }
+  });
+  return lines.join('\n');
+};
+
+// --- HTML (print-ready) ---
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, "Segoe UI", "Noto Sans TC", sans-serif; color: #111; max-width: 860px; margin: 40px auto; padding: 0 24px; line-height: 1.6; }
+  h1 { margin-bottom: 4px; } h2 { border-bottom: 2px solid #111; padding-bottom: 4px; margin-top: 40px; }
+  .muted { color: #666; font-size: 12px; }
+  .reference { display: flex; gap: 16px; align-items: center; }
+  .reference img, .approved img { max-width: 240px; border-radius: 8px; border: 1px solid #ddd; }
+  .version { border: 1px solid #ddd; border-radius: 10px; padding: 16px 20px; margin: 16px 0; page-break-inside: avoid; }
+  .version.current { border-color: #4f46e5; box-shadow: 0 0 0 2px #4f46e533; }
+  .version h3 { margin: 0 0 4px; font-size: 16px; }
+  .tag { display: inline-block; font-size: 11px; padding: 1px 8px; border-radius: 99px; background: #eef; color: #4338ca; margin-left: 6px; }
+  blockquote { margin: 8px 0; padding: 6px 12px; border-left: 3px solid #f59e0b; background: #fffbeb; }
+  pre { white-space: pre-wrap; background: #f4f4f5; padding: 12px; border-radius: 8px; font-size: 13px; }
+  .analysis { white-space: pre-wrap; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; } td, th { border: 1px solid #ddd; padding: 4px 6px; text-align: left; vertical-align: top; }
+  @media print { body { margin: 0 auto; } .no-print { display: none; } }
+`;
+
+export const exportSessionHtml = async (session: SessionSnapshot): Promise<string> => {
+  const referenceThumb = await createSessionThumbnail(session.references[0], REPORT_IMAGE_SIZE) ?? session.thumbnail;
+  const referenceImage = isSafeImageDataUrl(referenceThumb) ? referenceThumb : undefined;
+  const approvedThumbs = new Map<MediaFile, string | undefined>();
+  for (const image of approvedImages(session)) approvedThumbs.set(image, await createSessionThumbnail(image, REPORT_IMAGE_SIZE));
+
+  const versions = session.versions.map((version, i) => {
+    const { result } = version;
+    const approvedThumb = version.origin === 'image-to-video' && version.generatedImage ? approvedThumbs.get(version.generatedImage) : undefined;
+    const thumb = isSafeImageDataUrl(approvedThumb) ? approvedThumb : undefined;
+    const storyboard = result.storyboard && `
+      <h4>Storyboard</h4>
+      <table>
+        <tr><th>#</th><th>Shot</th><th>Description</th><th>Image prompt</th><th>Motion prompt</th></tr>
+        ${result.storyboard.shots.map((shot, n) => `
+          <tr><td>${n + 1}</td><td>${escapeHtml(`${shot.duration}s · ${shot.shotSize}, ${shot.cameraMovement}`)}</td><td>${escapeHtml(shot.description)}</td>
+          <td>${escapeHtml(withContinuity(shot.imagePrompt, result.storyboard!.continuity))}</td><td>${escapeHtml(shot.motionPrompt)}</td></tr>`).join('')}
+      </table>`;
+    const shots = result.shots?.length && `
+      <h4>Shot list</h4>
+      <table>
+        <tr><th>#</th><th>Time</th><th>Shot</th><th>Image prompt</th><th>Motion prompt</th></tr>
+        ${result.shots.map((shot, n) => `
+          <tr><td>${n + 1}</td><td>${shot.start.toFixed(1)}–${shot.end.toFixed(1)}s</td><td>${escapeHtml(`${shot.shotSize}, ${shot.cameraMovement}`)}</td>
+          <td>${escapeHtml(shot.imagePrompt)}</td><td>${escapeHtml(shot.motionPrompt)}</td></tr>`).join('')}
+      </table>`;
+    return `
+      <section class="version${version.id === session.activeVersionId ? ' current' : ''}">
+        <h3>v${i + 1} · ${escapeHtml(ORIGIN_LABELS[version.origin])}<span class="tag">${escapeHtml(PHASE_LABELS[version.phase])}</span></h3>
+        <p class="muted">${[
+          version.parentId && `from v${versionNumber(session, version.parentId)}`,
+          new Date(version.createdAt).toLocaleString(),
+          result.meta?.templateVersion && escapeHtml(result.meta.templateVersion),
+        ].filter(Boolean).join(' · ')}</p>
+        ${version.feedback ? `<blockquote>${escapeHtml(version.feedback)}</blockquote>` : ''}
+        ${thumb ? `<div class="approved"><p class="muted">Approved generated image</p><img src="${escapeHtml(thumb)}" alt="Approved image"></div>` : ''}
+        <h4>Analysis</h4>
+        <div class="analysis">${escapeHtml(result.analysis)}</div>
+        <h4>Prompt</h4>
+        <pre>${escapeHtml(result.prompt)}</pre>
+        ${result.facets?.negative.length ? `<p><strong>Negative:</strong> ${escapeHtml(result.facets.negative.join(', '))}</p>` : ''}
+        ${storyboard || ''}
+        ${shots || ''}
+      </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(session.name)} · DeCode AI Report</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(session.name)}</h1>
+  <p class="muted">DeCode AI session report · exported ${new Date().toLocaleString()} · ${session.versions.length} versions</p>
+  <div class="reference">
+    ${referenceImage ? `<img src="${escapeHtml(referenceImage)}" alt="Reference">` : ''}
+    <p><strong>Reference</strong><br>${escapeHtml(mediaSummary(session.references))}</p>
+  </div>
+  <h2>Versions</h2>
+  ${versions || '<p class="muted">No results yet.</p>'}
+</body>
+</html>`;
+};
+
+// --- entry points used by the UI ---
+
+export type SessionExportFormat = 'markdown' | 'json' | 'html' | 'pdf';
+
+export const exportSession = async (session: SessionSnapshot, format: SessionExportFormat) => {
+  const baseName = safeFileName(session.name);
+  switch (format) {
+    case 'markdown':
+      return downloadFile(await exportSessionMarkdown(session), `${baseName}.md`, 'text/markdown');
+    case 'json':
+      return downloadFile(await exportSessionJson(session), `${baseName}.decode.json`, 'application/json');
+    case 'html':
+      return downloadFile(await exportSessionHtml(session), `${baseName}.html`, 'text/html');
+    case 'pdf': {
+      // 開新視窗並呼叫列印，由瀏覽器「另存為 PDF」；視窗須在 await 前開啟才不會被封鎖
+      const win = window.open('', '_blank');
+      if (!win) throw new Error("瀏覽器封鎖了彈出視窗，請允許後再試 (Pop-up blocked).");
+      win.document.write(await exportSessionHtml(session));
+      win.document.close();
+      if (win.document.readyState === 'complete') win.print();
+      else win.addEventListener('load', () => win.print());
+      return;
+    }
+  }
+};
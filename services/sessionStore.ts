@@ -0,0 +1,133 @@
+import { DirectorSession, MediaFile, SessionAssets } from "../types";
+import { idbDelete, idbGet, idbGetAll, idbPut } from "./idb";
+import { loadImage, loadVideoFrame } from "./mediaLoader";
+
+// --- Director 工作階段 ---
+// 參考素材、歷史樹與尚未送出的上傳素材自動存進 IndexedDB，重新整理或 Start Over 後可從清單繼續。
+// blob: 預覽網址重新整理後就失效，儲存時移除，載入時再由 File / base64 重建。
+
+export type SessionSnapshot = Omit<DirectorSession, 'sizeBytes'>;
+
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+const THUMBNAIL_SIZE = 160;
+const THUMBNAIL_QUALITY = 0.7;
+
+export const createSessionId = () => `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const defaultSessionName = (media: MediaFile) =>
+  media.file?.name.replace(/\.[^.]+$/, '') || `Session ${new Date().toLocaleString()}`;
+
+// 同一個 MediaFile 可能同時出現在參考、多個版本節點與待送素材中，只轉換一次並維持共用
+const mapSessionMedia = <T extends Pick<DirectorSession, 'references' | 'versions' | 'assets'>>(
+  session: T,
+  transform: (media: MediaFile) => MediaFile
+): T => {
+  const seen = new Map<MediaFile, MediaFile>();
+  const map = (media: MediaFile) => {
+    if (!seen.has(media)) seen.set(media, transform(media));
+    return seen.get(media)!;
+  };
+  const mapOptional = <M extends MediaFile | null | undefined>(media: M) => (media ? map(media) : media);
+  const assets: SessionAssets = {
+    generatedImage: mapOptional(session.assets.generatedImage),
+    badResultImage: mapOptional(session.assets.badResultImage),
+    badResultVideo: mapOptional(session.assets.badResultVideo),
+  };
+  return {
+    ...session,
+    references: session.references.map(map),
+    versions: session.versions.map(version => ({
+      ...version,
+      badResult: mapOptional(version.badResult),
+      generatedImage: mapOptional(version.generatedImage),
+    })),
+    assets,
+  };
+};
+
+export const stripPreview = ({ previewUrl: _previewUrl, ...media }: MediaFile): MediaFile => media;
+
+export const restorePreview = (media: MediaFile): MediaFile => {
+  const keyframe = media.keyframes?.[0];
+  const previewUrl = media.file
+    ? URL.createObjectURL(media.file)
+    : media.base64Data
+      ? `data:${media.mimeType};base64,${media.base64Data}`
+      : keyframe && `data:${keyframe.mimeType};base64,${keyframe.base64Data}`;
+  return { ...media, previewUrl };
+};
+
+// 粗估佔用：JSON 內容（含 base64）+ 不重複的原始檔案
+const estimateSessionSize = (session: SessionSnapshot): number => {
+  const files = new Set<File>();
+  mapSessionMedia(session, media => {
+    if (media.file) files.add(media.file);
+    return media;
+  });
+  const json = new Blob([JSON.stringify(session)]).size;
+  return json + [...files].reduce((sum, file) => sum + file.size, 0);
+};
+
+export const saveSession = async (session: SessionSnapshot): Promise<void> => {
+  const stored = mapSessionMedia(session, stripPreview);
+  await idbPut<DirectorSession>('sessions', { ...stored, sizeBytes: estimateSessionSize(stored) });
+};
+
+// 清單只需要名稱、縮圖等資訊，不重建預覽網址
+export const listSessions = async (): Promise<DirectorSession[]> => {
+  const sessions = await idbGetAll<DirectorSession>('sessions');
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<DirectorSession | undefined> => {
+  const session = await idbGet<DirectorSession>('sessions', id);
+  return session && mapSessionMedia(session, restorePreview);
+};
+
+export const renameSession = async (id: string, name: string) => {
+  const session = await idbGet<DirectorSession>('sessions', id);
+  if (session) await idbPut('sessions', { ...session, name });
+};
+
+export const deleteSession = (id: string) => idbDelete('sessions', id);
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const isQuotaExceeded = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// --- 縮圖 ---
+
+export const createSessionThumbnail = async (media: MediaFile, size = THUMBNAIL_SIZE): Promise<string | undefined> => {
+  try {
+    const keyframe = media.keyframes?.[0];
+    const source: HTMLImageElement | HTMLVideoElement | null = keyframe
+      ? await loadImage(`data:${keyframe.mimeType};base64,${keyframe.base64Data}`)
+      : media.type === 'video' && media.previewUrl
+        ? await loadVideoFrame(media.previewUrl)
+        : media.previewUrl
+          ? await loadImage(media.previewUrl)
+          : null;
+    if (!source) return undefined;
+
+    const width = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+    const height = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
+    const scale = Math.min(1, size / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY);
+  } catch (e) {
+    console.warn("Failed to create session thumbnail", e);
+    return undefined;
+  }
+};
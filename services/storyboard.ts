@@ -0,0 +1,63 @@
+// --- 分鏡腳本編輯：純函式，供 StoryboardEditor 排序 / 增刪鏡頭 ---
+
+import { ContinuityNotes, Storyboard, StoryboardShot } from "../types";
+
+export const STORYBOARD_SHOT_COUNTS = [3, 4, 5, 6, 8];
+export const DEFAULT_STORYBOARD_SHOTS = 4;
+
+export const CONTINUITY_FIELDS: { key: keyof ContinuityNotes; label: string }[] = [
+  { key: 'character', label: '角色 (Character)' },
+  { key: 'wardrobe', label: '服裝 (Wardrobe)' },
+  { key: 'lighting', label: '光線 (Lighting)' },
+  { key: 'timeOfDay', label: '時間 (Time of day)' },
+];
+
+export const createShotId = () => `shot-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// 模型回傳的鏡頭沒有 id，補上本地 id
+export const withShotIds = (shots: Omit<StoryboardShot, 'id'>[]): StoryboardShot[] =>
+  shots.map(shot => ({ ...shot, id: createShotId() }));
+
+export const moveShot = (shots: StoryboardShot[], index: number, offset: number): StoryboardShot[] => {
+  const target = index + offset;
+  if (target < 0 || target >= shots.length) return shots;
+  const next = [...shots];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+export const updateShot = (shots: StoryboardShot[], id: string, patch: Partial<StoryboardShot>): StoryboardShot[] =>
+  shots.map(shot => (shot.id === id ? { ...shot, ...patch } : shot));
+
+export const removeShot = (shots: StoryboardShot[], id: string): StoryboardShot[] => shots.filter(shot => shot.id !== id);
+
+// 複製一鏡插在其後，作為新鏡頭的起點
+export const duplicateShot = (shots: StoryboardShot[], id: string): StoryboardShot[] =>
+  shots.flatMap(shot => (shot.id === id ? [shot, { ...shot, id: createShotId() }] : [shot]));
+
+export const getStoryboardDuration = (storyboard: Storyboard) =>
+  storyboard.shots.reduce((total, shot) => total + (shot.duration || 0), 0);
+
+// 每鏡的 prompt 後面接上連戲設定，單獨貼到生成器也能維持一致。
+// 鏡頭本身的內容放在最前面：生成器較重視前段的詞，各鏡的差異才不會被共用設定蓋過
+export const withContinuity = (prompt: string, continuity: ContinuityNotes) =>
+  [prompt, continuity.character, continuity.wardrobe, continuity.lighting, continuity.timeOfDay]
+    .map(part => part.trim())
+    .filter(Boolean)
+    .join(', ');
+
+// 整份分鏡轉成純文字，方便貼進文件或剪輯軟體
+export const storyboardToText = (storyboard: Storyboard): string => {
+  const { continuity } = storyboard;
+  const header = [
+    `Continuity`,
+    ...CONTINUITY_FIELDS.map(({ key, label }) => `- ${label}: ${continuity[key]}`),
+  ];
+  const shots = storyboard.shots.map((shot, i) => [
+    `Shot ${i + 1} (${shot.duration}s) — ${shot.shotSize}, ${shot.cameraMovement}`,
+    shot.description,
+    `Image: ${withContinuity(shot.imagePrompt, continuity)}`,
+    `Motion: ${shot.motionPrompt}`,
+  ].join('\n'));
+  return [header.join('\n'), ...shots].join('\n\n');
+};
@@ -0,0 +1,131 @@
+// --- 提示詞版本差異 ---
+// 先以片語（逗號 / 句讀分隔）對齊找出「搬移」的片語，其餘部分再做逐字 (word-level) LCS 差異。
+// 中日文沒有空白，逐字元比較。
+
+export type DiffType = 'equal' | 'added' | 'removed' | 'moved';
+
+export interface DiffSegment {
+  type: DiffType;
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;   // 新增的字數
+  removed: number; // 刪除的字數
+  moved: number;   // 調換順序的片語數
+}
+
+interface Phrase {
+  text: string;
+  key: string;
+}
+
+const CJK = '\\u3000-\\u30ff\\u3400-\\u9fff\\uff00-\\uffef';
+// 每個 token 帶著後方空白，避免空白本身被當成相同內容對齊
+const TOKEN_PATTERN = new RegExp(`[${CJK}]\\s*|[^\\s${CJK}]+\\s*|\\s+`, 'g');
+const PHRASE_PATTERN = /[^,;\n。，；、]+[,;\n。，；、]*\s*|[,;\n。，；、]+\s*/g;
+
+const tokenize = (text: string): string[] => text.match(TOKEN_PATTERN) ?? [];
+
+const normalizePhrase = (text: string) =>
+  text.toLowerCase().replace(/[,;\n。，；、.]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const splitPhrases = (text: string): Phrase[] =>
+  (text.match(PHRASE_PATTERN) ?? []).map(t => ({ text: t, key: normalizePhrase(t) }));
+
+// 最長共同子序列，回傳對應的 index pairs
+const lcsPairs = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): [number, number][] => {
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = equals(a[i], b[j]) ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equals(a[i], b[j])) {
+      pairs.push([i++, j++]);
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+const pushSegment = (segments: DiffSegment[], type: DiffType, text: string) => {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last?.type === type) last.text += text;
+  else segments.push({ type, text });
+};
+
+const diffWords = (before: string, after: string, segments: DiffSegment[]) => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  let i = 0;
+  let j = 0;
+  for (const [ai, bj] of [...lcsPairs(a, b, (x, y) => x.trim() === y.trim()), [a.length, b.length]]) {
+    pushSegment(segments, 'removed', a.slice(i, ai).join(''));
+    pushSegment(segments, 'added', b.slice(j, bj).join(''));
+    if (ai < a.length) pushSegment(segments, 'equal', b[bj]);
+    i = ai + 1;
+    j = bj + 1;
+  }
+};
+
+export const diffText = (before: string, after: string): DiffSegment[] => {
+  const a = splitPhrases(before);
+  const b = splitPhrases(after);
+  const anchors = lcsPairs(a, b, (x, y) => !!x.key && x.key === y.key);
+
+  // 沒被 LCS 對齊、但內容相同的片語 = 調換了順序
+  const matchedA = new Set(anchors.map(([i]) => i));
+  const matchedB = new Set(anchors.map(([, j]) => j));
+  const movedA = new Set<number>();
+  const movedB = new Set<number>();
+  b.forEach((phrase, j) => {
+    if (matchedB.has(j) || !phrase.key) return;
+    const i = a.findIndex((candidate, index) => candidate.key === phrase.key && !matchedA.has(index) && !movedA.has(index));
+    if (i === -1) return;
+    movedA.add(i);
+    movedB.add(j);
+  });
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [ai, bj] of [...anchors, [a.length, b.length] as [number, number]]) {
+    let pendingRemoved = a.slice(i, ai).filter((_, k) => !movedA.has(i + k)).map(p => p.text).join('');
+    let run = '';
+    const flush = () => {
+      diffWords(pendingRemoved, run, segments);
+      pendingRemoved = '';
+      run = '';
+    };
+    for (let k = j; k < bj; k++) {
+      if (movedB.has(k)) {
+        flush();
+        pushSegment(segments, 'moved', b[k].text);
+      } else {
+        run += b[k].text;
+      }
+    }
+    flush();
+    if (ai < a.length) pushSegment(segments, 'equal', b[bj].text);
+    i = ai + 1;
+    j = bj + 1;
+  }
+  return segments;
+};
+
+const countWords = (text: string) => tokenize(text).filter(t => t.trim()).length;
+
+export const getDiffStats = (segments: DiffSegment[]): DiffStats => ({
+  added: segments.filter(s => s.type === 'added').reduce((sum, s) => sum + countWords(s.text), 0),
+  removed: segments.filter(s => s.type === 'removed').reduce((sum, s) => sum + countWords(s.text), 0),
+  moved: segments.filter(s => s.type === 'moved').reduce((sum, s) => sum + splitPhrases(s.text).length, 0),
+});
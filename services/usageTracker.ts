@@ -0,0 +1,182 @@
+import { AIFeature, AIProviderId } from "../types";
+
+// --- Token 用量與費用追蹤 ---
+// 每次模型呼叫記錄 input/output tokens、模型與功能；依每個模型的單價換算費用，
+// 並在本次工作階段超過預算門檻時發出警告。
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  sessionId: string;
+  timestamp: number;
+  feature: AIFeature;
+  provider: AIProviderId;
+  model: string;
+  costUsd: number;
+  cached: boolean; // 快取命中，未實際呼叫模型
+}
+
+export interface ModelPricing {
+  inputPerMillion: number; // USD / 1M input tokens
+  outputPerMillion: number; // USD / 1M output tokens
+}
+
+export interface UsageBudget {
+  sessionBudgetUsd: number | null;
+  warnAtPercent: number;
+}
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+export interface UsageSummary extends TokenUsage {
+  calls: number;
+  costUsd: number;
+  budget: UsageBudget;
+  status: BudgetStatus;
+}
+
+const LOG_STORAGE_KEY = 'usage_log';
+const PRICING_STORAGE_KEY = 'model_pricing';
+const BUDGET_STORAGE_KEY = 'usage_budget';
+const MAX_LOG_RECORDS = 2000;
+
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+};
+
+const DEFAULT_BUDGET: UsageBudget = { sessionBudgetUsd: null, warnAtPercent: 80 };
+
+// 每次載入頁面即為一個新的工作階段
+const SESSION_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const getUsageLog = (): UsageRecord[] => readJson<UsageRecord[]>(LOG_STORAGE_KEY, []);
+
+export const getModelPricing = (): Record<string, ModelPricing> => ({
+  ...DEFAULT_MODEL_PRICING,
+  ...readJson<Record<string, ModelPricing>>(PRICING_STORAGE_KEY, {}),
+});
+
+export const saveModelPricing = (pricing: Record<string, ModelPricing>) => {
+  localStorage.setItem(PRICING_STORAGE_KEY, JSON.stringify(pricing));
+  notify();
+};
+
+export const getUsageBudget = (): UsageBudget => ({ ...DEFAULT_BUDGET, ...readJson<Partial<UsageBudget>>(BUDGET_STORAGE_KEY, {}) });
+
+export const saveUsageBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+  notify();
+};
+
+export const estimateCost = (model: string, usage: TokenUsage): number => {
+  const price = getModelPricing()[model];
+  if (!price) return 0;
+  return (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+const budgetStatus = (costUsd: number, budget: UsageBudget): BudgetStatus => {
+  if (!budget.sessionBudgetUsd) return 'ok';
+  if (costUsd >= budget.sessionBudgetUsd) return 'exceeded';
+  return costUsd >= (budget.sessionBudgetUsd * budget.warnAtPercent) / 100 ? 'warning' : 'ok';
+};
+
+export const getSessionSummary = (): UsageSummary => {
+  const records = getUsageLog().filter(r => r.sessionId === SESSION_ID);
+  const budget = getUsageBudget();
+  const totals = records.reduce(
+    (acc, r) => ({
+      calls: acc.calls + (r.cached ? 0 : 1),
+      inputTokens: acc.inputTokens + r.inputTokens,
+      outputTokens: acc.outputTokens + r.outputTokens,
+      costUsd: acc.costUsd + r.costUsd,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+  );
+  return { ...totals, budget, status: budgetStatus(totals.costUsd, budget) };
+};
+
+// --- 訂閱 (Header 即時顯示) ---
+type UsageListener = (summary: UsageSummary) => void;
+const listeners = new Set<UsageListener>();
+
+const notify = () => {
+  const summary = getSessionSummary();
+  listeners.forEach(listener => listener(summary));
+};
+
+export const subscribeUsage = (listener: UsageListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const recordUsage = (entry: {
+  feature: AIFeature;
+  provider: AIProviderId;
+  model: string;
+  usage?: TokenUsage;
+  cached?: boolean;
+}) => {
+  const usage = entry.usage ?? { inputTokens: 0, outputTokens: 0 };
+  const record: UsageRecord = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    sessionId: SESSION_ID,
+    timestamp: Date.now(),
+    feature: entry.feature,
+    provider: entry.provider,
+    model: entry.model,
+    ...usage,
+    costUsd: entry.cached || entry.provider === 'fixture' ? 0 : estimateCost(entry.model, usage),
+    cached: !!entry.cached,
+  };
+  const log = [...getUsageLog(), record].slice(-MAX_LOG_RECORDS);
+  try {
+    localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.warn("Failed to persist usage log", e);
+  }
+  notify();
+};
+
+export const clearUsageLog = () => {
+  localStorage.removeItem(LOG_STORAGE_KEY);
+  notify();
+};
+
+const csvCell = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportUsageCsv = () => {
+  const header = ['timestamp', 'session', 'feature', 'provider', 'model', 'input_tokens', 'output_tokens', 'cost_usd', 'cached'];
+  const rows = getUsageLog().map(r => [
+    new Date(r.timestamp).toISOString(), r.sessionId, r.feature, r.provider, r.model,
+    r.inputTokens, r.outputTokens, r.costUsd.toFixed(6), r.cached,
+  ]);
+  const csv = [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `stockflow-usage-${new Date().toISOString().split('T')[0]}.csv`;
+  link.click();
+  // 立即釋放網址時 Firefox / Safari 會取消下載，延到下載開始之後
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
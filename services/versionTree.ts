@@ -0,0 +1,56 @@
+import { DirectorPhase, DirectorResponse, GenerationState, ResultVersion } from "../types";
+
+// --- 結果歷史樹：純函式，供 App / WallpaperGenerator 更新 GenerationState ---
+
+export type NewVersion = Omit<ResultVersion, 'id' | 'createdAt' | 'result'>;
+
+// 新增節點並設為目前版本
+export const addVersion = (state: GenerationState, result: DirectorResponse, version: NewVersion): GenerationState => {
+  const node: ResultVersion = {
+    ...version,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    result,
+    createdAt: Date.now(),
+  };
+  return {
+    ...state,
+    isLoading: false,
+    error: null,
+    validationIssues: undefined,
+    partialResult: null,
+    result,
+    versions: [...(state.versions ?? []), node],
+    activeVersionId: node.id,
+  };
+};
+
+// 還原任一節點（之後的修正會從該節點分支）
+export const selectVersion = (state: GenerationState, id: string): GenerationState => {
+  const node = state.versions?.find(v => v.id === id);
+  if (!node) return state;
+  return { ...state, error: null, validationIssues: undefined, result: node.result, activeVersionId: id };
+};
+
+export const getActiveVersion = (state: GenerationState): ResultVersion | undefined =>
+  state.versions?.find(v => v.id === state.activeVersionId);
+
+// 往上找到最近的指定階段節點（含自己），例如 Video 節點所依據的 Image Prompt
+export const findPhaseAncestor = (versions: ResultVersion[], id: string | null | undefined, phase: DirectorPhase): ResultVersion | undefined => {
+  let node = versions.find(v => v.id === id);
+  while (node && node.phase !== phase) node = versions.find(v => v.id === node!.parentId);
+  return node;
+};
+
+// 依建立順序深度優先展開，供側欄以縮排顯示樹狀結構
+export const flattenVersionTree = (versions: ResultVersion[]): { version: ResultVersion; depth: number }[] => {
+  const rows: { version: ResultVersion; depth: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const version of versions) {
+      if (version.parentId !== parentId) continue;
+      rows.push({ version, depth });
+      visit(version.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return rows;
+};
@@ -0,0 +1,192 @@
+import { KeyframeSamplingMode, VideoKeyframe, VideoMetadata } from "../types";
+import { loadVideo } from "./mediaLoader";
+
+// 在瀏覽器端從影片抽取代表性影格，取代整支影片的 inline base64 上傳
+
+export interface KeyframeSamplingOptions {
+  mode: KeyframeSamplingMode;
+  frameCount: number;
+  onProgress?: (progress: number) => void; // 0 ~ 1
+}
+
+const FRAME_LONG_EDGE = 768;
+const FRAME_QUALITY = 0.8;
+const SCENE_PROBE_SIZE = { width: 32, height: 18 };
+const SCENE_MAX_PROBES = 120;
+const SCENE_MIN_GAP_S = 0.5;
+const FPS_PROBE_TIMEOUT_MS = 1500;
+const SEEK_TIMEOUT_MS = 5000;
+
+// 損壞的影片可能永遠不會觸發 seeked，逾時或 error 時中止取樣
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+    };
+    const onSeeked = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error("影片跳轉失敗 (Video seek failed)"));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error("影片跳轉逾時 (Video seek timed out)"));
+    }, SEEK_TIMEOUT_MS);
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    const end = Number.isFinite(video.duration) ? Math.max(video.duration - 0.05, 0) : time;
+    video.currentTime = Math.min(Math.max(time, 0), end);
+  });
+
+// MediaRecorder 錄製的 WebM 常沒有寫入長度（duration 為 Infinity / NaN），
+// 跳到極遠處讓瀏覽器掃描到結尾，取得實際長度
+const resolveDuration = async (video: HTMLVideoElement): Promise<number> => {
+  if (!Number.isFinite(video.duration)) await seekTo(video, Number.MAX_SAFE_INTEGER);
+  if (!Number.isFinite(video.duration)) throw new Error("無法取得影片長度 (Unknown video duration)");
+  return video.duration;
+};
+
+const captureFrame = (video: HTMLVideoElement, canvas: HTMLCanvasElement, time: number): VideoKeyframe => {
+  const scale = Math.min(1, FRAME_LONG_EDGE / Math.max(video.videoWidth, video.videoHeight));
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', FRAME_QUALITY);
+  return { time, mimeType: 'image/jpeg', base64Data: dataUrl.split(',')[1] };
+};
+
+// 縮成極小灰階圖，用來比較相鄰畫面的差異
+const probeLuma = (video: HTMLVideoElement, canvas: HTMLCanvasElement): Float32Array => {
+  canvas.width = SCENE_PROBE_SIZE.width;
+  canvas.height = SCENE_PROBE_SIZE.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const luma = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return luma;
+};
+
+const lumaDifference = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+};
+
+const intervalTimes = (duration: number, count: number): number[] =>
+  Array.from({ length: count }, (_, i) => ((i + 0.5) * duration) / count);
+
+// 場景切換偵測：取差異最大的時間點（保留第一個畫面），不足時以固定間隔補齊
+const sceneChangeTimes = async (
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  duration: number,
+  count: number,
+  onProgress?: (progress: number) => void
+): Promise<number[]> => {
+  const probes = Math.min(SCENE_MAX_PROBES, Math.max(count * 4, Math.ceil(duration / SCENE_MIN_GAP_S)));
+  const step = duration / probes;
+  const scores: { time: number; score: number }[] = [];
+  let previous: Float32Array | null = null;
+
+  for (let i = 0; i < probes; i++) {
+    const time = i * step;
+    await seekTo(video, time);
+    const luma = probeLuma(video, canvas);
+    scores.push({ time, score: previous ? lumaDifference(previous, luma) : Number.POSITIVE_INFINITY });
+    previous = luma;
+    onProgress?.(((i + 1) / probes) * 0.7);
+  }
+
+  const picked: number[] = [];
+  for (const { time } of [...scores].sort((a, b) => b.score - a.score)) {
+    if (picked.length >= count) break;
+    if (picked.every(t => Math.abs(t - time) >= Math.max(SCENE_MIN_GAP_S, duration / (count * 4)))) picked.push(time);
+  }
+  for (const time of intervalTimes(duration, count)) {
+    if (picked.length >= count) break;
+    if (picked.every(t => Math.abs(t - time) >= SCENE_MIN_GAP_S)) picked.push(time);
+  }
+  return picked.sort((a, b) => a - b);
+};
+
+// 瀏覽器不直接提供 fps，透過 requestVideoFrameCallback 量測相鄰影格的 mediaTime 差
+const estimateFps = (video: HTMLVideoElement): Promise<number | undefined> =>
+  new Promise((resolve) => {
+    if (!('requestVideoFrameCallback' in video)) return resolve(undefined);
+    const rvfc = video.requestVideoFrameCallback.bind(video);
+
+    const deltas: number[] = [];
+    let lastMediaTime: number | null = null;
+    const finish = () => {
+      video.pause();
+      if (deltas.length < 3) return resolve(undefined);
+      const median = deltas.sort((a, b) => a - b)[Math.floor(deltas.length / 2)];
+      resolve(median > 0 ? Math.round((1 / median) * 100) / 100 : undefined);
+    };
+    const timer = setTimeout(finish, FPS_PROBE_TIMEOUT_MS);
+    const onFrame = (_now: number, metadata: { mediaTime: number }) => {
+      if (lastMediaTime !== null && metadata.mediaTime > lastMediaTime) deltas.push(metadata.mediaTime - lastMediaTime);
+      lastMediaTime = metadata.mediaTime;
+      if (deltas.length >= 12) {
+        clearTimeout(timer);
+        finish();
+      } else {
+        rvfc(onFrame);
+      }
+    };
+    rvfc(onFrame);
+    video.currentTime = 0;
+    video.play().catch(() => {
+      clearTimeout(timer);
+      resolve(undefined);
+    });
+  });
+
+export const sampleVideoKeyframes = async (
+  file: File,
+  { mode, frameCount, onProgress }: KeyframeSamplingOptions
+): Promise<{ keyframes: VideoKeyframe[]; videoMeta: VideoMetadata }> => {
+  const src = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(src);
+    const canvas = document.createElement('canvas');
+    const duration = await resolveDuration(video);
+    const count = Math.max(1, Math.min(frameCount, Math.floor(duration / SCENE_MIN_GAP_S) || 1));
+
+    const times = mode === 'scene'
+      ? await sceneChangeTimes(video, canvas, duration, count, onProgress)
+      : intervalTimes(duration, count);
+
+    const keyframes: VideoKeyframe[] = [];
+    for (let i = 0; i < times.length; i++) {
+      await seekTo(video, times[i]);
+      keyframes.push(captureFrame(video, canvas, times[i]));
+      const base = mode === 'scene' ? 0.7 : 0;
+      onProgress?.(base + ((i + 1) / times.length) * (0.95 - base));
+    }
+
+    const fps = await estimateFps(video);
+    onProgress?.(1);
+
+    return {
+      keyframes,
+      videoMeta: {
+        duration,
+        fps,
+        width: video.videoWidth,
+        height: video.videoHeight,
+        samplingMode: mode,
+      },
+    };
+  } finally {
+    URL.revokeObjectURL(src);
+  }
+};
@@ -1,5 +1,77 @@
 export type MediaType = 'image' | 'video' | 'text';
 export type AppMode = 'director' | 'stocksensei';
+export type AIProviderId = 'gemini' | 'proxy' | 'fixture';
+export type AnalysisLanguage = 'zh-TW' | 'zh-CN' | 'en' | 'ja';
+export type AIFeature =
+  | 'director-image'
+  | 'director-refine'
+  | 'video-prompt'
+  | 'video-refine'
+  | 'shot-list'
+  | 'match-score'
+  | 'storyboard'
+  | 'wallpaper'
+  | 'seo'
+  | 'market-insights';
+
+export type KeyframeSamplingMode = 'scene' | 'interval';
+
+export interface VideoKeyframe {
+  time: number; // seconds
+  base64Data: string;
+  mimeType: string;
+}
+
+export interface VideoMetadata {
+  duration: number; // seconds
+  fps?: number;
+  width: number;
+  height: number;
+  samplingMode: KeyframeSamplingMode;
+}
+
+// 瀏覽器端量測的色彩與影像統計（不經模型）
+export interface PaletteColor {
+  hex: string;
+  rgb: [number, number, number];
+  proportion: number; // 0-1，佔畫面比例
+}
+
+export interface ImageStats {
+  palette: PaletteColor[];   // 依比例由大到小
+  brightness: number;        // 0-100，平均亮度
+  contrast: number;          // 0-100，亮度標準差
+  saturation: number;        // 0-100，平均飽和度
+  lumaHistogram: number[];   // 各區間比例，暗 → 亮
+  saturationHistogram: number[];
+}
+
+// 從 EXIF / XMP 讀出的拍攝資訊；GPS 預設不保留
+export interface CameraMetadata {
+  make?: string;
+  model?: string;
+  lens?: string;
+  focalLength?: number;      // mm
+  focalLength35mm?: number;  // 35mm 等效焦距
+  aperture?: number;         // f-number
+  exposureTime?: number;     // 秒
+  iso?: number;
+  capturedAt?: string;       // YYYY-MM-DDTHH:mm:ss（相機本地時間）
+  orientation?: number;      // EXIF Orientation 1-8
+  gps?: { latitude: number; longitude: number };
+}
+
+// 上傳前縮圖 / 重新編碼的結果；MediaFile.file 仍保留原始全解析度檔案
+export interface UploadNormalization {
+  originalBytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  sentBytes: number;
+  width: number;
+  height: number;
+  mimeType: string;
+  orientation: number; // 已轉正的 EXIF Orientation，1 = 不需轉正
+}
 
 export interface MediaFile {
   file?: File;
@@ -8,12 +80,107 @@ export interface MediaFile {
   base64Data?: string;
   mimeType?: string;
   textContent?: string;
+  keyframes?: VideoKeyframe[]; // 影片改以關鍵影格送出時才有
+  videoMeta?: VideoMetadata;
+  role?: ReferenceRole; // 多參考分析時，這張參考圖的用途
+  weight?: number;      // 多參考分析時的權重 (1-3)
+  stats?: ImageStats;   // 本地色彩分析結果
+  camera?: CameraMetadata; // 照片的 EXIF / XMP 拍攝資訊
+  upload?: UploadNormalization; // base64Data 是縮圖後的版本時才有
+}
+
+export type ReferenceRole = 'all' | 'style' | 'composition' | 'subject';
+
+// 多參考分析：每張參考圖被採用了哪些元素（index 從 1 開始）
+export interface ReferenceNote {
+  index: number;
+  contribution: string;
+}
+
+// 產生結果時的環境資訊（使用的模板版本等）
+export interface ResultMeta {
+  templateId: string;
+  templateVersion: string; // e.g. "visual-director@v1.r2"
+  cached?: boolean; // 由回應快取直接取得，未重新呼叫模型
+  cachedAt?: number;
+}
+
+// 提示詞的結構化拆解，可在畫面上逐欄編輯後於本地重組 prompt
+export interface PromptFacets {
+  subject: string;
+  composition: string;
+  camera: string;       // camera / lens
+  lighting: string;
+  colorPalette: string;
+  style: string;        // medium / style
+  mood: string;
+  negative: string[];   // 不希望出現的元素
+}
+
+// 影片逐鏡頭拆解（秒數以參考影片為準）
+export interface ShotBreakdown {
+  start: number;
+  end: number;
+  shotSize: string;       // 景別：extreme wide / wide / medium / close-up…
+  cameraMovement: string;
+  lens: string;
+  transition: string;     // 進入下一個鏡頭的轉場
+  description: string;
+  imagePrompt: string;    // 該鏡頭的靜態畫面 prompt
+  motionPrompt: string;   // 該鏡頭的動態 prompt
+}
+
+export type DirectorAnalysisMode = 'single' | 'shots';
+
+// 多鏡頭分鏡腳本：由核准的 image + motion prompt 展開，各鏡共用連戲設定
+export interface ContinuityNotes {
+  character: string;
+  wardrobe: string;
+  lighting: string;
+  timeOfDay: string;
+}
+
+export interface StoryboardShot {
+  id: string;             // 本地產生，供排序 / 編輯使用
+  duration: number;       // seconds
+  shotSize: string;
+  cameraMovement: string;
+  description: string;
+  imagePrompt: string;
+  motionPrompt: string;
+}
+
+export interface Storyboard {
+  continuity: ContinuityNotes;
+  shots: StoryboardShot[];
 }
 
 export interface DirectorResponse {
   title?: string;
   analysis: string;
   prompt: string;
+  facets?: PromptFacets;
+  referenceNotes?: ReferenceNote[];
+  shots?: ShotBreakdown[];
+  storyboard?: Storyboard;
+  meta?: ResultMeta;
+}
+
+// 生成圖 vs 參考素材的相似度評分
+export type MatchDimension = 'composition' | 'lighting' | 'palette' | 'subject' | 'style';
+
+export interface MatchScore {
+  dimension: MatchDimension;
+  score: number; // 0-100
+  note: string;  // 差異說明
+  fix: string;   // 英文修正建議，會帶入 refine
+}
+
+export interface MatchReport {
+  overall: number; // 0-100
+  summary: string;
+  scores: MatchScore[];
+  meta?: ResultMeta;
 }
 
 export interface StockSenseiResponse {
@@ -22,6 +189,7 @@ export interface StockSenseiResponse {
     bestTitle: string;
     keywords: string; // 35-50 keywords, comma separated
   };
+  meta?: ResultMeta;
 }
 
 export interface MarketEvent {
@@ -37,12 +205,34 @@ export interface MarketInsight {
   upcomingEvents: MarketEvent[];
   hotKeywords: string[];
   commercialAdvice: string;
+  meta?: ResultMeta;
 }
 
 export interface GenerationState {
   isLoading: boolean;
   result: DirectorResponse | StockSenseiResponse | null;
   error: string | null;
+  validationIssues?: string[]; // Schema 驗證失敗時的細節
+  failedMode?: DirectorAnalysisMode; // 失敗的分析模式，Retry 時沿用
+  partialResult?: Partial<DirectorResponse> | null; // 串流中尚未完成的內容
+  versions?: ResultVersion[]; // 生成與修正的歷史樹
+  activeVersionId?: string | null;
+}
+
+export type DirectorPhase = 'image-prompt' | 'video-prompt' | 'storyboard';
+export type VersionOrigin = 'generate' | 'refine' | 'image-to-video' | 'storyboard' | 'edit';
+
+// 歷史樹的節點：每次生成 / 修正都保留，從舊節點再修正即形成分支
+export interface ResultVersion {
+  id: string;
+  parentId: string | null;
+  phase: DirectorPhase;
+  origin: VersionOrigin;
+  result: DirectorResponse;
+  feedback?: string;          // 修正時的文字回饋
+  badResult?: MediaFile;      // 修正時上傳的失敗圖 / 影片
+  generatedImage?: MediaFile; // Video / Storyboard Phase 所依據的成功圖片
+  createdAt: number;
 }
 
 export interface SavedStyle {
@@ -50,4 +240,25 @@ export interface SavedStyle {
   name: string;
   analysis: string;
   thumbnailUrl: string;
-}
\ No newline at end of file
+}
+
+// ResultDisplay 中已上傳、尚未送出的素材（成功圖 / 失敗圖 / 失敗影片）
+export interface SessionAssets {
+  generatedImage?: MediaFile | null;
+  badResultImage?: MediaFile | null;
+  badResultVideo?: MediaFile | null;
+}
+
+// 自動儲存於 IndexedDB 的 Director 工作階段；phase 由 activeVersionId 對應的節點決定
+export interface DirectorSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail?: string; // 小尺寸 JPEG data URL
+  sizeBytes: number;
+  references: MediaFile[];
+  versions: ResultVersion[];
+  activeVersionId: string | null;
+  assets: SessionAssets;
+}